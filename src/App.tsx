@@ -3,10 +3,11 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import ThemeProvider from "@/components/ThemeProvider";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import { IMPORT_BASE_PATH, importStepPath } from "@/lib/importWizard";
 
 const queryClient = new QueryClient();
 
@@ -19,6 +20,9 @@ const App = () => (
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
+            <Route path={IMPORT_BASE_PATH} element={<Navigate to={importStepPath("upload")} replace />} />
+            {/* Each step of the import wizard; the page stays mounted so state survives browser back */}
+            <Route path={`${IMPORT_BASE_PATH}/:step`} element={<Index />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
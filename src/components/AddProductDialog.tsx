@@ -6,29 +6,20 @@ import {
   DialogContent,
   DialogActions,
   Button,
-  TextField,
   Box,
-  FormControl,
-  InputLabel,
-  Select,
-  MenuItem,
   Avatar,
   IconButton,
   Typography,
 } from '@mui/material';
 import { CloudUpload as CloudUploadIcon, Delete as DeleteIcon } from '@mui/icons-material';
-
-interface ProductTypeDto {
-  companyID: string;
-  productTypeID: string;
-  companyName: string;
-  productName: string;
-  productDescription: any;
-  productImage: string;
-  globalProductCategory: string;
-  netContent: number;
-  metaData?: Record<string, any>;
-}
+import ProductFormFields from './ProductFormFields';
+import { useUploadProductImage } from '../hooks/useProducts';
+import {
+  createEmptyProduct,
+  productTypeSchema,
+  type ProductFieldName,
+  type ProductTypeDto,
+} from '../schemas/productType';
 
 interface AddProductDialogProps {
   open: boolean;
@@ -37,56 +28,17 @@ interface AddProductDialogProps {
   onImageUpload: (productId: string, file: File) => void;
 }
 
-const categories = [
-  'Electronics',
-  'Technology',
-  'Food & Beverage',
-  'Clothing',
-  'Home & Garden',
-  'Health & Beauty',
-  'Sports & Outdoors',
-  'Books & Media',
-];
-
-// Simulate S3 signed URL API call
-const getSignedUrl = async (fileName: string, fileType: string): Promise<string> => {
-  // In real implementation, this would call your API
-  console.log('Requesting signed URL for:', fileName, fileType);
-  
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  // Return mock signed URL
-  return `https://mock-s3-bucket.s3.amazonaws.com/products/${fileName}?signature=mock-signature`;
-};
-
-const uploadToS3 = async (signedUrl: string, file: File): Promise<void> => {
-  // In real implementation, this would upload to S3 using the signed URL
-  console.log('Uploading to S3:', signedUrl, file);
-  
-  // Simulate upload delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-};
-
 const AddProductDialog: React.FC<AddProductDialogProps> = ({
   open,
   onClose,
   onSave,
   onImageUpload,
 }) => {
-  const [formData, setFormData] = useState<Omit<ProductTypeDto, 'id'>>({
-    companyID: '',
-    productTypeID: '',
-    companyName: '',
-    productName: '',
-    productDescription: '',
-    productImage: '',
-    globalProductCategory: '',
-    netContent: 0,
-  });
-  const [isUploading, setIsUploading] = useState(false);
+  const [formData, setFormData] = useState<Omit<ProductTypeDto, 'id'>>(createEmptyProduct);
+  const uploadImage = useUploadProductImage();
+  const isUploading = uploadImage.isPending;
 
-  const handleInputChange = (field: keyof Omit<ProductTypeDto, 'id'>, value: any) => {
+  const handleInputChange = (field: ProductFieldName, value: string | number) => {
     setFormData(prev => ({
       ...prev,
       [field]: value,
@@ -102,31 +54,12 @@ const AddProductDialog: React.FC<AddProductDialogProps> = ({
       return;
     }
 
-    setIsUploading(true);
-    
     try {
-      // Generate unique filename
-      const timestamp = Date.now();
-      const fileName = `${timestamp}-${file.name}`;
-      
-      // Get signed URL
-      const signedUrl = await getSignedUrl(fileName, file.type);
-      
-      // Upload to S3
-      await uploadToS3(signedUrl, file);
-      
-      // Update form data with the filename (not the full URL)
-      handleInputChange('productImage', fileName);
-      
-      // Create temporary URL for preview
-      const previewUrl = URL.createObjectURL(file);
-      
-      console.log('Image uploaded successfully:', fileName);
+      const imageUrl = await uploadImage.mutateAsync(file);
+      handleInputChange('productImage', imageUrl);
     } catch (error) {
       console.error('Image upload failed:', error);
       alert('Image upload failed. Please try again.');
-    } finally {
-      setIsUploading(false);
     }
   };
 
@@ -137,44 +70,16 @@ const AddProductDialog: React.FC<AddProductDialogProps> = ({
   const handleSave = () => {
     onSave(formData);
     // Reset form
-    setFormData({
-      companyID: '',
-      productTypeID: '',
-      companyName: '',
-      productName: '',
-      productDescription: '',
-      productImage: '',
-      globalProductCategory: '',
-      netContent: 0,
-    });
+    setFormData(createEmptyProduct());
   };
 
   const handleClose = () => {
     onClose();
     // Reset form
-    setFormData({
-      companyID: '',
-      productTypeID: '',
-      companyName: '',
-      productName: '',
-      productDescription: '',
-      productImage: '',
-      globalProductCategory: '',
-      netContent: 0,
-    });
+    setFormData(createEmptyProduct());
   };
 
-  const isFormValid = () => {
-    return (
-      formData.companyID &&
-      formData.productTypeID &&
-      formData.companyName &&
-      formData.productName &&
-      formData.productDescription &&
-      formData.globalProductCategory &&
-      formData.netContent > 0
-    );
-  };
+  const isFormValid = () => productTypeSchema.safeParse(formData).success;
 
   return (
     <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
@@ -186,7 +91,7 @@ const AddProductDialog: React.FC<AddProductDialogProps> = ({
           {/* Image Upload Section */}
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, p: 2, border: '1px dashed #ccc', borderRadius: 2 }}>
             <Avatar
-              src={formData.productImage ? URL.createObjectURL(new Blob()) : undefined}
+              src={formData.productImage || undefined}
               sx={{ width: 80, height: 80 }}
               variant="rounded"
             >
@@ -229,87 +134,13 @@ const AddProductDialog: React.FC<AddProductDialogProps> = ({
               </Box>
               {formData.productImage && (
                 <Typography variant="caption" color="text.secondary">
-                  File: {formData.productImage}
+                  Image uploaded
                 </Typography>
               )}
             </Box>
           </Box>
 
-          <Box sx={{ display: 'flex', gap: 2 }}>
-            <TextField
-              label="Company ID"
-              value={formData.companyID}
-              onChange={(e) => handleInputChange('companyID', e.target.value)}
-              fullWidth
-              required
-              variant="outlined"
-            />
-            <TextField
-              label="Product Type ID"
-              value={formData.productTypeID}
-              onChange={(e) => handleInputChange('productTypeID', e.target.value)}
-              fullWidth
-              required
-              variant="outlined"
-            />
-          </Box>
-
-          <Box sx={{ display: 'flex', gap: 2 }}>
-            <TextField
-              label="Company Name"
-              value={formData.companyName}
-              onChange={(e) => handleInputChange('companyName', e.target.value)}
-              fullWidth
-              required
-              variant="outlined"
-            />
-            <TextField
-              label="Product Name"
-              value={formData.productName}
-              onChange={(e) => handleInputChange('productName', e.target.value)}
-              fullWidth
-              required
-              variant="outlined"
-            />
-          </Box>
-
-          <TextField
-            label="Product Description"
-            value={formData.productDescription}
-            onChange={(e) => handleInputChange('productDescription', e.target.value)}
-            fullWidth
-            multiline
-            rows={3}
-            required
-            variant="outlined"
-          />
-
-          <Box sx={{ display: 'flex', gap: 2 }}>
-            <FormControl fullWidth required>
-              <InputLabel>Global Product Category</InputLabel>
-              <Select
-                value={formData.globalProductCategory}
-                onChange={(e) => handleInputChange('globalProductCategory', e.target.value)}
-                label="Global Product Category"
-              >
-                {categories.map((category) => (
-                  <MenuItem key={category} value={category}>
-                    {category}
-                  </MenuItem>
-                ))}
-              </Select>
-            </FormControl>
-            
-            <TextField
-              label="Net Content"
-              type="number"
-              value={formData.netContent}
-              onChange={(e) => handleInputChange('netContent', parseFloat(e.target.value) || 0)}
-              fullWidth
-              required
-              variant="outlined"
-            />
-          </Box>
+          <ProductFormFields formData={formData} onChange={handleInputChange} />
         </Box>
       </DialogContent>
       <DialogActions sx={{ p: 3, pt: 2 }}>
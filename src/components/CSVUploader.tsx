@@ -14,6 +14,7 @@ interface CSVData {
 }
 
 interface ColumnMapping {
+  columnId: string;
   originalName: string;
   mappedName: string;
   isValid: boolean;
@@ -38,6 +39,9 @@ const CSVUploader: React.FC = () => {
   });
   const [editFormData, setEditFormData] = useState<CSVData>({});
 
+  // Rows here are keyed by header text, so the header doubles as the column id
+  const sourceColumns = originalColumns.map(name => ({ id: name, name }));
+
   // Required API fields based on ProductTypeDto
   const requiredApiFields = [
     'companyID',
@@ -144,6 +148,7 @@ const CSVUploader: React.FC = () => {
 
         // Initialize mappings with empty values for proper validation
         const initialMappings: ColumnMapping[] = headers.map(header => ({
+          columnId: header,
           originalName: header,
           mappedName: '',
           isValid: false,
@@ -289,7 +294,7 @@ const CSVUploader: React.FC = () => {
 
       <DataGridSection
         csvData={csvData}
-        originalColumns={originalColumns}
+        sourceColumns={sourceColumns}
         onEditRow={handleEditRow}
         onDeleteRow={handleDeleteRow}
       />
@@ -309,7 +314,7 @@ const CSVUploader: React.FC = () => {
 
       <EditRowDialog
         open={editDialog.open}
-        originalColumns={originalColumns}
+        sourceColumns={sourceColumns}
         editFormData={editFormData}
         onClose={handleCloseEdit}
         onSave={handleSaveEdit}
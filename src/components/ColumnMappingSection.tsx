@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
   Box, 
   Typography, 
@@ -21,7 +21,10 @@ import {
   TableContainer,
   TableHead,
   TableRow,
-  Tooltip
+  Tooltip,
+  Button,
+  Badge,
+  TextField
 } from '@mui/material';
 import { 
   CheckCircle as CheckCircleIcon, 
@@ -29,38 +32,118 @@ import {
   Storage as StorageIcon,
   Warning as WarningIcon,
   ArrowForward as ArrowForwardIcon,
-  Info as InfoIcon
+  Info as InfoIcon,
+  AutoAwesome as AutoAwesomeIcon,
+  Tune as TuneIcon,
+  CallSplit as CallSplitIcon,
+  Block as BlockIcon,
+  SubdirectoryArrowRight as SubdirectoryArrowRightIcon,
+  FileDownload as FileDownloadIcon,
+  FileUpload as FileUploadIcon
 } from '@mui/icons-material';
 
-interface ColumnMapping {
-  originalName: string;
-  mappedName: string;
-  isValid: boolean;
-  isMetadata: boolean;
-  errorMessage?: string;
-}
+import { type CSVData, type ColumnMapping, type ComputedField } from '../types/import';
+import { applyTransforms, getSourceValue, type TransformStep } from '../lib/transforms';
+import { HIGH_CONFIDENCE_THRESHOLD } from '../lib/autoMapper';
+import { type MappingProfile, type ProfileMatch } from '../lib/mappingProfiles';
+import { type ComputedFieldErrors } from '../lib/computedFields';
+import { type SplitOutput, type SplitRule } from '../lib/splitColumn';
+import { IGNORE_MAPPING, METADATA_TYPE_LABELS, isFieldMapping, type MetaDataType } from '../lib/metaData';
+import MappingProfilesPanel from './MappingProfilesPanel';
+import ColumnNameEditor from './ColumnNameEditor';
+import TransformEditorDialog from './TransformEditorDialog';
+import ComputedFieldsPanel from './ComputedFieldsPanel';
+import SplitColumnDialog from './SplitColumnDialog';
 
 interface ColumnMappingSectionProps {
   columnMappings: ColumnMapping[];
   onColumnMappingChange: (index: number, newMappedName: string) => void;
   requiredApiFields: string[];
+  optionalApiFields?: string[];
+  dtoName?: string;
+  profiles?: MappingProfile[];
+  appliedProfile?: ProfileMatch | null;
+  onSaveProfile?: (name: string) => void;
+  onApplyProfile?: (id: string) => void;
+  onRenameProfile?: (id: string, name: string) => void;
+  onDeleteProfile?: (id: string) => void;
+  // Returns an error message when the name is rejected
+  onRenameColumn?: (columnId: string, name: string) => string | null;
+  // First few rows, used for the transformation preview
+  sampleRows?: CSVData[];
+  onTransformsChange?: (columnId: string, steps: TransformStep[]) => void;
+  computedFields?: ComputedField[];
+  computedFieldErrors?: ComputedFieldErrors;
+  onComputedFieldsChange?: (computedFields: ComputedField[]) => void;
+  // A null rule removes the column's split
+  onSplitColumn?: (columnId: string, rule: SplitRule | null, outputs: SplitOutput[]) => void;
+  onMetaDataSettingsChange?: (columnId: string, settings: Pick<ColumnMapping, 'metaDataKey' | 'metaDataType'>) => void;
+  onExportMapping?: () => void;
+  // Receives the chosen mapping JSON file
+  onImportMapping?: (event: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
+const PREVIEW_VALUE_COUNT = 3;
+const NO_TRANSFORMS: TransformStep[] = [];
+const NO_COMPUTED_FIELDS: ComputedField[] = [];
+
 const ColumnMappingSection: React.FC<ColumnMappingSectionProps> = ({
   columnMappings,
   onColumnMappingChange,
   requiredApiFields,
+  optionalApiFields = [],
+  dtoName = 'ProductTypeDto',
+  profiles,
+  appliedProfile,
+  onSaveProfile,
+  onApplyProfile,
+  onRenameProfile,
+  onDeleteProfile,
+  onRenameColumn,
+  sampleRows = [],
+  onTransformsChange,
+  computedFields = NO_COMPUTED_FIELDS,
+  computedFieldErrors = {},
+  onComputedFieldsChange,
+  onSplitColumn,
+  onMetaDataSettingsChange,
+  onExportMapping,
+  onImportMapping,
 }) => {
+  const [editingColumnId, setEditingColumnId] = useState<string | null>(null);
+  const [splittingColumnId, setSplittingColumnId] = useState<string | null>(null);
+
+  // Memoised so the split dialog's draft isn't reset while it is open
+  const splitOutputs = useMemo(
+    () => columnMappings.filter(mapping => mapping.split && mapping.split.columnId === splittingColumnId),
+    [columnMappings, splittingColumnId]
+  );
+  const splitOutputNames = useMemo(
+    () => splitOutputs.map(output => ({ part: output.split.part, name: output.originalName })),
+    [splitOutputs]
+  );
+
   if (columnMappings.length === 0) return null;
 
-  // Count how many times each DTO field is mapped
+  const editingMapping = columnMappings.find(mapping => mapping.columnId === editingColumnId);
+  const splittingMapping = columnMappings.find(mapping => mapping.columnId === splittingColumnId);
+  const getParentName = (mapping: ColumnMapping) =>
+    columnMappings.find(parent => parent.columnId === mapping.split?.columnId)?.originalName;
+
+  // Count how many times each DTO field is mapped, by a column or a computed field
   const fieldUsageCount = new Map<string, number>();
   columnMappings.forEach(mapping => {
-    if (!mapping.isMetadata && mapping.mappedName && mapping.mappedName !== '') {
+    if (isFieldMapping(mapping) && mapping.mappedName && mapping.mappedName !== '') {
       fieldUsageCount.set(mapping.mappedName, (fieldUsageCount.get(mapping.mappedName) || 0) + 1);
     }
   });
+  computedFields.forEach(computed => {
+    if (computed.field) {
+      fieldUsageCount.set(computed.field, (fieldUsageCount.get(computed.field) || 0) + 1);
+    }
+  });
 
+  const apiFields = [...requiredApiFields, ...optionalApiFields];
   const mappedFields = Array.from(fieldUsageCount.keys());
   const unmappedRequiredFields = requiredApiFields.filter(field => !mappedFields.includes(field));
   const duplicatedFields = Array.from(fieldUsageCount.entries())
@@ -71,25 +154,58 @@ const ColumnMappingSection: React.FC<ColumnMappingSectionProps> = ({
     <Paper elevation={2} sx={{ p: 4, mb: 3, backgroundColor: '#fafafa', borderRadius: 2 }}>
       <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
         <Typography variant="h5" sx={{ fontWeight: 600, color: '#1976d2' }}>
-          Step 2: Map Your Columns
+          Map Your Columns
         </Typography>
-        <Tooltip title="Map your CSV columns to ProductTypeDto fields. Unmapped columns will be stored as metadata.">
+        <Tooltip title={`Map your source columns to ${dtoName} fields. Unmapped columns will be stored as metadata.`}>
           <InfoIcon color="action" />
         </Tooltip>
+        <Box sx={{ flex: 1 }} />
+        {onImportMapping && (
+          <>
+            <input
+              accept=".json,application/json"
+              style={{ display: 'none' }}
+              id="mapping-file-import"
+              type="file"
+              onChange={onImportMapping}
+            />
+            <label htmlFor="mapping-file-import">
+              <Button variant="outlined" component="span" startIcon={<FileUploadIcon />}>
+                Import mapping
+              </Button>
+            </label>
+          </>
+        )}
+        {onExportMapping && (
+          <Button variant="outlined" startIcon={<FileDownloadIcon />} onClick={onExportMapping}>
+            Export mapping
+          </Button>
+        )}
       </Box>
       
+      {profiles && (
+        <MappingProfilesPanel
+          profiles={profiles}
+          appliedProfile={appliedProfile || null}
+          onSave={onSaveProfile}
+          onApply={onApplyProfile}
+          onRename={onRenameProfile}
+          onDelete={onDeleteProfile}
+        />
+      )}
+
       {/* API Fields Reference Card */}
       <Card sx={{ mb: 3, border: '2px solid #e3f2fd', backgroundColor: '#f8faff' }}>
         <CardContent>
           <Typography variant="h6" sx={{ mb: 2, color: '#1976d2', display: 'flex', alignItems: 'center', gap: 1 }}>
             <StorageIcon />
-            ProductTypeDto Fields Reference
+            {dtoName} Fields Reference
           </Typography>
           <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
-            {requiredApiFields.map(field => (
+            {apiFields.map(field => (
               <Chip 
                 key={field}
-                label={field}
+                label={optionalApiFields.includes(field) ? `${field} (optional)` : field}
                 variant={mappedFields.includes(field) ? 'filled' : 'outlined'}
                 color={mappedFields.includes(field) ? 'success' : 'default'}
                 size="medium"
@@ -99,8 +215,9 @@ const ColumnMappingSection: React.FC<ColumnMappingSectionProps> = ({
           </Box>
           <Alert severity="info" sx={{ mt: 2 }}>
             <Typography variant="body2">
-              <strong>Important:</strong> Each DTO field can only be mapped to one column. 
-              Columns that don't match any DTO field should use <strong>metaData</strong> (selected by default).
+              <strong>Important:</strong> Each DTO field can only be mapped to one column or computed field.
+              Columns whose headers clearly match a DTO field are mapped automatically; everything else
+              defaults to <strong>metaData</strong> for review.
             </Typography>
           </Alert>
         </CardContent>
@@ -136,25 +253,39 @@ const ColumnMappingSection: React.FC<ColumnMappingSectionProps> = ({
               <TableCell sx={{ fontWeight: 600, minWidth: 180 }}>CSV Column</TableCell>
               <TableCell sx={{ fontWeight: 600, width: 60 }}></TableCell>
               <TableCell sx={{ fontWeight: 600, minWidth: 300 }}>Map to DTO Field</TableCell>
+              {(onTransformsChange || onSplitColumn) && <TableCell sx={{ fontWeight: 600, minWidth: 140 }}>Tools</TableCell>}
               <TableCell sx={{ fontWeight: 600, minWidth: 120 }}>Status</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
             {columnMappings.map((mapping, index) => (
               <TableRow 
-                key={mapping.originalName}
+                key={mapping.columnId}
                 sx={{ 
                   backgroundColor: mapping.isValid ? '#f9fff9' : '#fff5f5',
                   '&:hover': { backgroundColor: mapping.isValid ? '#f0fff0' : '#ffebee' }
                 }}
               >
-                <TableCell>
-                  <Chip 
-                    label={mapping.originalName}
-                    variant="filled"
-                    color="primary"
-                    sx={{ fontWeight: 600, maxWidth: '100%' }}
-                  />
+                <TableCell sx={mapping.split ? { pl: 5 } : undefined}>
+                  {mapping.split && (
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5 }}>
+                      <SubdirectoryArrowRightIcon fontSize="inherit" />
+                      Part {mapping.split.part + 1} of {getParentName(mapping)}
+                    </Typography>
+                  )}
+                  {onRenameColumn ? (
+                    <ColumnNameEditor
+                      name={mapping.originalName}
+                      onRename={(name) => onRenameColumn(mapping.columnId, name)}
+                    />
+                  ) : (
+                    <Chip 
+                      label={mapping.originalName}
+                      variant="filled"
+                      color="primary"
+                      sx={{ fontWeight: 600, maxWidth: '100%' }}
+                    />
+                  )}
                 </TableCell>
                 
                 <TableCell align="center">
@@ -179,8 +310,14 @@ const ColumnMappingSection: React.FC<ColumnMappingSectionProps> = ({
                           <Typography sx={{ fontWeight: 500 }}>metaData (recommended)</Typography>
                         </Box>
                       </MenuItem>
+                      <MenuItem value={IGNORE_MAPPING}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <BlockIcon fontSize="small" color="action" />
+                          <Typography>Ignore (don't upload)</Typography>
+                        </Box>
+                      </MenuItem>
                       <Divider />
-                      {requiredApiFields.map(field => (
+                      {apiFields.map(field => (
                         <MenuItem 
                           key={field} 
                           value={field}
@@ -201,42 +338,171 @@ const ColumnMappingSection: React.FC<ColumnMappingSectionProps> = ({
                       </FormHelperText>
                     )}
                   </FormControl>
+                  {mapping.isMetadata && onMetaDataSettingsChange && (
+                    <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                      <TextField
+                        size="small"
+                        label="metaData key"
+                        placeholder={mapping.originalName.trim()}
+                        value={mapping.metaDataKey ?? ''}
+                        onChange={(e) => onMetaDataSettingsChange(mapping.columnId, {
+                          metaDataKey: e.target.value === '' ? undefined : e.target.value,
+                          metaDataType: mapping.metaDataType,
+                        })}
+                        helperText="Use dots to nest, e.g. dimensions.weight"
+                        sx={{ flex: 1 }}
+                        slotProps={{ inputLabel: { shrink: true } }}
+                      />
+                      <FormControl size="small" sx={{ minWidth: 120 }}>
+                        <InputLabel>Type</InputLabel>
+                        <Select
+                          value={mapping.metaDataType ?? 'string'}
+                          label="Type"
+                          onChange={(e) => onMetaDataSettingsChange(mapping.columnId, {
+                            metaDataKey: mapping.metaDataKey,
+                            metaDataType: e.target.value === 'string' ? undefined : e.target.value as MetaDataType,
+                          })}
+                        >
+                          {(Object.keys(METADATA_TYPE_LABELS) as MetaDataType[]).map(type => (
+                            <MenuItem key={type} value={type}>{METADATA_TYPE_LABELS[type]}</MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                    </Box>
+                  )}
+                  {mapping.transforms?.length > 0 && sampleRows.length > 0 && (
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5, fontFamily: 'monospace' }}>
+                      {sampleRows
+                        .slice(0, PREVIEW_VALUE_COUNT)
+                        .map(row => `${String(getSourceValue(row, mapping) ?? '')} → ${applyTransforms(getSourceValue(row, mapping), mapping.transforms)}`)
+                        .join('  ·  ')}
+                    </Typography>
+                  )}
                 </TableCell>
+
+                {(onTransformsChange || onSplitColumn) && (
+                  <TableCell>
+                    <Stack direction="row" spacing={1}>
+                      {onTransformsChange && (
+                        <Badge badgeContent={mapping.transforms?.length || 0} color="primary">
+                          <Button size="small" variant="outlined" startIcon={<TuneIcon />} onClick={() => setEditingColumnId(mapping.columnId)}>
+                            Transform
+                          </Button>
+                        </Badge>
+                      )}
+                      {onSplitColumn && !mapping.split && (
+                        <Tooltip title="Split into several outputs">
+                          <Button size="small" variant="outlined" onClick={() => setSplittingColumnId(mapping.columnId)}>
+                            <CallSplitIcon fontSize="small" />
+                          </Button>
+                        </Tooltip>
+                      )}
+                    </Stack>
+                  </TableCell>
+                )}
                 
                 <TableCell>
-                  {mapping.isValid ? (
-                    mapping.isMetadata ? (
-                      <Chip 
-                        icon={<StorageIcon />} 
-                        label="Metadata" 
-                        color="secondary" 
-                        size="small"
-                        variant="filled"
-                      />
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                    {mapping.isValid ? (
+                      mapping.isMetadata ? (
+                        <Chip 
+                          icon={<StorageIcon />} 
+                          label="Metadata" 
+                          color="secondary" 
+                          size="small"
+                          variant="filled"
+                        />
+                      ) : mapping.mappedName === IGNORE_MAPPING ? (
+                        <Chip
+                          icon={<BlockIcon />}
+                          label="Ignored"
+                          size="small"
+                          variant="outlined"
+                        />
+                      ) : (
+                        <Chip 
+                          icon={<CheckCircleIcon />} 
+                          label="Mapped" 
+                          color="success" 
+                          size="small"
+                          variant="filled"
+                        />
+                      )
                     ) : (
                       <Chip 
-                        icon={<CheckCircleIcon />} 
-                        label="Mapped" 
-                        color="success" 
+                        icon={<ErrorIcon />} 
+                        label="Invalid" 
+                        color="error" 
                         size="small"
                         variant="filled"
                       />
-                    )
-                  ) : (
-                    <Chip 
-                      icon={<ErrorIcon />} 
-                      label="Invalid" 
-                      color="error" 
-                      size="small"
-                      variant="filled"
-                    />
-                  )}
+                    )}
+                    {mapping.confidence !== undefined && isFieldMapping(mapping) && (
+                      <Tooltip title="Auto-mapped from the column header. Please confirm the match.">
+                        <Chip
+                          icon={<AutoAwesomeIcon />}
+                          label={`${Math.round(mapping.confidence * 100)}% match`}
+                          color={mapping.confidence >= HIGH_CONFIDENCE_THRESHOLD ? 'success' : 'warning'}
+                          size="small"
+                          variant="outlined"
+                        />
+                      </Tooltip>
+                    )}
+                  </Box>
                 </TableCell>
               </TableRow>
             ))}
           </TableBody>
         </Table>
       </TableContainer>
+
+      {onComputedFieldsChange && (
+        <ComputedFieldsPanel
+          computedFields={computedFields}
+          columnMappings={columnMappings}
+          apiFields={apiFields}
+          fieldUsageCount={fieldUsageCount}
+          errors={computedFieldErrors}
+          sampleRows={sampleRows}
+          onChange={onComputedFieldsChange}
+        />
+      )}
+
+      {onSplitColumn && (
+        <SplitColumnDialog
+          open={Boolean(splittingMapping)}
+          columnName={splittingMapping?.originalName ?? ''}
+          sampleValues={splittingMapping ? sampleRows.map(row => row[splittingMapping.columnId]) : []}
+          rule={splitOutputs[0]?.split ?? null}
+          outputs={splitOutputNames}
+          reservedNames={columnMappings
+            .filter(mapping => !splitOutputs.includes(mapping))
+            .map(mapping => mapping.originalName)}
+          onClose={() => setSplittingColumnId(null)}
+          onSave={(rule, outputs) => {
+            onSplitColumn(splittingColumnId, rule, outputs);
+            setSplittingColumnId(null);
+          }}
+          onRemove={() => {
+            onSplitColumn(splittingColumnId, null, []);
+            setSplittingColumnId(null);
+          }}
+        />
+      )}
+
+      {onTransformsChange && (
+        <TransformEditorDialog
+          open={Boolean(editingMapping)}
+          columnName={editingMapping?.originalName ?? ''}
+          steps={editingMapping?.transforms ?? NO_TRANSFORMS}
+          sampleValues={editingMapping ? sampleRows.map(row => getSourceValue(row, editingMapping)) : []}
+          onClose={() => setEditingColumnId(null)}
+          onSave={(steps) => {
+            onTransformsChange(editingColumnId, steps);
+            setEditingColumnId(null);
+          }}
+        />
+      )}
     </Paper>
   );
 };
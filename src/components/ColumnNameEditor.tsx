@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Box, Chip, IconButton, TextField, Tooltip } from '@mui/material';
+import { Edit as EditIcon } from '@mui/icons-material';
+
+interface ColumnNameEditorProps {
+  name: string;
+  // Returns an error message when the name is rejected
+  onRename: (name: string) => string | null;
+}
+
+const ColumnNameEditor: React.FC<ColumnNameEditorProps> = ({ name, onRename }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopEditing = () => {
+    setDraft(null);
+    setError(null);
+  };
+
+  const commit = () => {
+    if (draft === null) return;
+    if (draft.trim() === name) {
+      stopEditing();
+      return;
+    }
+    const renameError = onRename(draft.trim());
+    if (renameError) {
+      setError(renameError);
+    } else {
+      stopEditing();
+    }
+  };
+
+  if (draft !== null) {
+    return (
+      <TextField
+        size="small"
+        autoFocus
+        fullWidth
+        value={draft}
+        error={Boolean(error)}
+        helperText={error || 'Enter to save, Esc to cancel'}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') stopEditing();
+        }}
+      />
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+      <Chip
+        label={name}
+        variant="filled"
+        color="primary"
+        sx={{ fontWeight: 600, maxWidth: '100%' }}
+      />
+      <Tooltip title="Rename column">
+        <IconButton size="small" onClick={() => setDraft(name)}>
+          <EditIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    </Box>
+  );
+};
+
+export default ColumnNameEditor;
@@ -0,0 +1,161 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  IconButton,
+  ToggleButton,
+  ToggleButtonGroup,
+  Stack,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Functions as FunctionsIcon,
+} from '@mui/icons-material';
+import { type CSVData, type ColumnMapping, type ComputedField, type ComputedFieldKind } from '../types/import';
+import {
+  createComputedField,
+  renderComputedField,
+  toPlaceholder,
+  type ComputedFieldErrors,
+} from '../lib/computedFields';
+
+interface ComputedFieldsPanelProps {
+  computedFields: ComputedField[];
+  columnMappings: ColumnMapping[];
+  apiFields: string[];
+  // DTO field → number of column and computed mappings using it
+  fieldUsageCount: Map<string, number>;
+  errors: ComputedFieldErrors;
+  sampleRows: CSVData[];
+  onChange: (computedFields: ComputedField[]) => void;
+}
+
+const ComputedFieldsPanel: React.FC<ComputedFieldsPanelProps> = ({
+  computedFields,
+  columnMappings,
+  apiFields,
+  fieldUsageCount,
+  errors,
+  sampleRows,
+  onChange,
+}) => {
+  const updateField = (id: string, changes: Partial<ComputedField>) => {
+    onChange(computedFields.map(computed => (computed.id === id ? { ...computed, ...changes } : computed)));
+  };
+
+  const previewFor = (computed: ComputedField) =>
+    sampleRows.length > 0 ? renderComputedField(sampleRows[0], computed, columnMappings) : null;
+
+  return (
+    <Card sx={{ mt: 3, border: '1px solid #e0e0e0' }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <FunctionsIcon color="primary" />
+          <Typography variant="h6" sx={{ color: '#1976d2' }}>
+            Computed Fields
+          </Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Fill a field from several columns, e.g. <code>{'{Brand} {Model} {Variant}'}</code>, or with the same value for every row.
+        </Typography>
+
+        <Stack spacing={2}>
+          {computedFields.map(computed => {
+            const error = errors[computed.id];
+            const preview = previewFor(computed);
+            return (
+              <Box key={computed.id} sx={{ display: 'flex', gap: 2, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+                <FormControl size="small" sx={{ minWidth: 200 }} error={Boolean(error) && !computed.field}>
+                  <InputLabel>Field</InputLabel>
+                  <Select
+                    value={computed.field}
+                    label="Field"
+                    onChange={(e) => updateField(computed.id, { field: e.target.value })}
+                  >
+                    {apiFields.map(field => (
+                      <MenuItem
+                        key={field}
+                        value={field}
+                        disabled={fieldUsageCount.get(field) > 0 && computed.field !== field}
+                      >
+                        {field}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={computed.kind}
+                  onChange={(_, kind: ComputedFieldKind | null) => kind && updateField(computed.id, { kind })}
+                >
+                  <ToggleButton value="template">Template</ToggleButton>
+                  <ToggleButton value="constant">Constant</ToggleButton>
+                </ToggleButtonGroup>
+
+                <TextField
+                  size="small"
+                  label={computed.kind === 'template' ? 'Template' : 'Value'}
+                  placeholder={computed.kind === 'template' ? '{Brand} {Model}' : ''}
+                  value={computed.expression}
+                  onChange={(e) => updateField(computed.id, { expression: e.target.value })}
+                  error={Boolean(error)}
+                  helperText={error || (preview !== null ? `Preview: ${preview || '(empty)'}` : undefined)}
+                  sx={{ flex: 1, minWidth: 240 }}
+                  inputProps={{ style: { fontFamily: 'monospace' } }}
+                />
+
+                {computed.kind === 'template' && (
+                  <FormControl size="small" sx={{ minWidth: 160 }}>
+                    <InputLabel>Insert column</InputLabel>
+                    <Select
+                      value=""
+                      label="Insert column"
+                      onChange={(e) => updateField(computed.id, {
+                        expression: `${computed.expression}${computed.expression && !computed.expression.endsWith(' ') ? ' ' : ''}${toPlaceholder(e.target.value)}`,
+                      })}
+                    >
+                      {columnMappings.map(mapping => (
+                        <MenuItem key={mapping.columnId} value={mapping.originalName}>
+                          {mapping.originalName}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                )}
+
+                <IconButton
+                  color="error"
+                  onClick={() => onChange(computedFields.filter(existing => existing.id !== computed.id))}
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Box>
+            );
+          })}
+        </Stack>
+
+        <Box sx={{ display: 'flex', gap: 1, mt: computedFields.length > 0 ? 2 : 0 }}>
+          <Button startIcon={<AddIcon />} onClick={() => onChange([...computedFields, createComputedField('template')])}>
+            Add template field
+          </Button>
+          <Button startIcon={<AddIcon />} onClick={() => onChange([...computedFields, createComputedField('constant')])}>
+            Add constant field
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ComputedFieldsPanel;
@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Typography,
+  Chip,
+} from '@mui/material';
+import HeaderRowPreview from './HeaderRowPreview';
+import {
+  DELIMITER_OPTIONS,
+  ENCODING_OPTIONS,
+  QUOTE_OPTIONS,
+  decodeSample,
+  parseSampleRows,
+  type CsvDetection,
+  type CsvParseOptions,
+} from '../lib/csvDetection';
+
+interface CsvSettingsDialogProps {
+  open: boolean;
+  fileName: string;
+  detection: CsvDetection | null;
+  onClose: () => void;
+  onConfirm: (options: CsvParseOptions) => void;
+}
+
+const CsvSettingsDialog: React.FC<CsvSettingsDialogProps> = ({
+  open,
+  fileName,
+  detection,
+  onClose,
+  onConfirm,
+}) => {
+  const [options, setOptions] = useState<CsvParseOptions | null>(null);
+
+  useEffect(() => {
+    if (open && detection) {
+      setOptions(detection.options);
+    }
+  }, [open, detection]);
+
+  // Re-decoded and re-parsed from the sample whenever a setting changes
+  const sampleRows = useMemo(() => {
+    if (!detection || !options) return [];
+    try {
+      return parseSampleRows(decodeSample(detection.sample, options.encoding), options);
+    } catch {
+      return [];
+    }
+  }, [detection, options]);
+
+  if (!detection || !options) return null;
+
+  const updateOption = <K extends keyof CsvParseOptions>(key: K, value: CsvParseOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const isDetected = (key: keyof CsvParseOptions) => options[key] === detection.options[key];
+  const headerRowIndex = options.headerRowIndex;
+  const hasDataRows = sampleRows.length > headerRowIndex + 1;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import CSV File</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Typography variant="body2" color="text.secondary">
+              {fileName}
+            </Typography>
+            {detection.hasBom && <Chip size="small" variant="outlined" label="Byte order mark detected" />}
+          </Stack>
+
+          <Stack direction="row" spacing={2}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Delimiter</InputLabel>
+              <Select
+                value={options.delimiter}
+                label="Delimiter"
+                onChange={(e) => updateOption('delimiter', e.target.value)}
+              >
+                {DELIMITER_OPTIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                    {option.value === detection.options.delimiter && ' · detected'}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth size="small">
+              <InputLabel>Quote character</InputLabel>
+              <Select
+                value={options.quoteChar}
+                label="Quote character"
+                onChange={(e) => updateOption('quoteChar', e.target.value)}
+              >
+                {QUOTE_OPTIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                    {option.value === detection.options.quoteChar && ' · detected'}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth size="small">
+              <InputLabel>Encoding</InputLabel>
+              <Select
+                value={options.encoding}
+                label="Encoding"
+                onChange={(e) => updateOption('encoding', e.target.value)}
+              >
+                {ENCODING_OPTIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                    {option.value === detection.options.encoding && ' · detected'}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <TextField
+              label="Header row"
+              type="number"
+              size="small"
+              value={headerRowIndex + 1}
+              onChange={(e) => {
+                const row = parseInt(e.target.value, 10);
+                if (!Number.isNaN(row) && row >= 1 && row <= sampleRows.length) {
+                  updateOption('headerRowIndex', row - 1);
+                }
+              }}
+              inputProps={{ min: 1, max: Math.max(sampleRows.length, 1) }}
+              helperText={isDetected('headerRowIndex') ? 'Detected' : undefined}
+              sx={{ minWidth: 120 }}
+            />
+          </Stack>
+
+          <HeaderRowPreview
+            rows={sampleRows}
+            headerRowIndex={headerRowIndex}
+            onHeaderRowChange={(rowIndex) => updateOption('headerRowIndex', rowIndex)}
+            emptyMessage="No rows could be read with these settings."
+          />
+
+          <Typography variant="caption" color="text.secondary">
+            Settings were detected from the start of the file. Click a row to use it as the header; rows above it are ignored.
+          </Typography>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={() => onConfirm(options)}
+          variant="contained"
+          disabled={!hasDataRows}
+        >
+          Import File
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CsvSettingsDialog;
@@ -1,79 +1,168 @@
-
-import React, { useMemo } from 'react';
-import { Box, Typography, Paper, IconButton } from '@mui/material';
-import { Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  IconButton,
+  Alert,
+  Tooltip,
+  FormControlLabel,
+  Switch,
+  Checkbox,
+} from '@mui/material';
+import { Edit as EditIcon, Delete as DeleteIcon, Error as ErrorIcon } from '@mui/icons-material';
 import {
   MaterialReactTable,
   type MRT_ColumnDef,
   type MRT_Row,
   useMaterialReactTable,
 } from 'material-react-table';
-
-interface CSVData {
-  [key: string]: any;
-}
+import { type CSVData, type SourceColumn } from '../types/import';
+import { hasRowErrors, summarizeRowErrors, type RowErrors } from '../lib/rowValidation';
+import { type ParseIssue } from '../lib/parseIssues';
+import ParseIssuesPanel from './ParseIssuesPanel';
 
 interface DataGridSectionProps {
   csvData: CSVData[];
-  originalColumns: string[];
+  sourceColumns: SourceColumn[];
+  rowErrors?: RowErrors[];
+  excludeInvalidRows?: boolean;
+  onExcludeInvalidRowsChange?: (exclude: boolean) => void;
   onEditRow: (row: MRT_Row<CSVData>) => void;
   onDeleteRow: (row: MRT_Row<CSVData>) => void;
+  // The rows are only the start of a file that is still loading; editing is disabled
+  isPreview?: boolean;
+  parseIssues?: ParseIssue[];
+  onFixRow?: (rowIndex: number) => void;
+  onDropRows?: (rowIndexes: number[]) => void;
+  onKeepRows?: (rowIndexes: number[]) => void;
+  title?: string;
 }
 
+const EMPTY_ROW_ERRORS: RowErrors[] = [];
+const NO_PARSE_ISSUES: ParseIssue[] = [];
+
 const DataGridSection: React.FC<DataGridSectionProps> = ({
   csvData,
-  originalColumns,
+  sourceColumns,
+  rowErrors = EMPTY_ROW_ERRORS,
+  excludeInvalidRows = false,
+  onExcludeInvalidRowsChange,
   onEditRow,
   onDeleteRow,
+  isPreview = false,
+  parseIssues = NO_PARSE_ISSUES,
+  onFixRow,
+  onDropRows,
+  onKeepRows,
+  title = 'Review & Edit Data',
 }) => {
+  const [showOnlyErrors, setShowOnlyErrors] = useState(false);
+
+  const parseIssueRows = useMemo(() => new Set(parseIssues.map(issue => issue.rowIndex)), [parseIssues]);
+
+  const summary = useMemo(() => summarizeRowErrors(rowErrors), [rowErrors]);
+
+  // Row ids are the index into csvData so edits and deletes still target the
+  // right row while the error filter is active
+  const rowIndexLookup = useMemo(
+    () => new Map(csvData.map((row, index) => [row, index])),
+    [csvData]
+  );
+
+  const filterToErrors = showOnlyErrors && summary.invalidRowCount > 0;
+  const tableData = useMemo(
+    () => (filterToErrors ? csvData.filter((_, index) => hasRowErrors(rowErrors[index])) : csvData),
+    [csvData, rowErrors, filterToErrors]
+  );
+
   const columns = useMemo<MRT_ColumnDef<CSVData>[]>(() => {
-    if (originalColumns.length === 0) return [];
+    if (sourceColumns.length === 0) return [];
 
-    return [
-      ...originalColumns.map((column): MRT_ColumnDef<CSVData> => ({
-        accessorKey: column,
-        header: column,
-        size: 150,
-        Cell: ({ cell }) => (
-          <Typography variant="body2" noWrap>
+    const getCellError = (row: MRT_Row<CSVData>, columnId: string) =>
+      rowErrors[Number(row.id)]?.[columnId];
+
+    // Computed field errors don't belong to a single cell, so they're shown by the row actions
+    const columnIds = new Set(sourceColumns.map(column => column.id));
+    const getRowLevelErrors = (row: MRT_Row<CSVData>) =>
+      Object.entries(rowErrors[Number(row.id)] || {})
+        .filter(([key]) => !columnIds.has(key))
+        .map(([, message]) => message);
+
+    const dataColumns = sourceColumns.map((column): MRT_ColumnDef<CSVData> => ({
+      accessorKey: column.id,
+      header: column.name,
+      size: 150,
+      muiTableBodyCellProps: ({ row }) => ({
+        sx: getCellError(row, column.id)
+          ? { backgroundColor: '#fdecea', boxShadow: 'inset 0 0 0 1px #f44336' }
+          : undefined,
+      }),
+      Cell: ({ cell, row }) => {
+        const error = getCellError(row, column.id);
+        const content = (
+          <Typography variant="body2" noWrap color={error ? 'error' : undefined}>
             {cell.getValue() as string}
           </Typography>
-        ),
-      })),
+        );
+        return error ? (
+          <Tooltip title={error} arrow>
+            <Box sx={{ minHeight: 20 }}>{content}</Box>
+          </Tooltip>
+        ) : content;
+      },
+    }));
+
+    if (isPreview) return dataColumns;
+
+    return [
+      ...dataColumns,
       {
         id: 'actions',
         header: 'Actions',
         size: 120,
         enableSorting: false,
         enableColumnFilter: false,
-        Cell: ({ row }) => (
-          <Box sx={{ display: 'flex', gap: 1 }}>
-            <IconButton
-              size="small"
-              onClick={() => onEditRow(row)}
-              color="primary"
-            >
-              <EditIcon fontSize="small" />
-            </IconButton>
-            <IconButton
-              size="small"
-              onClick={() => onDeleteRow(row)}
-              color="error"
-            >
-              <DeleteIcon fontSize="small" />
-            </IconButton>
-          </Box>
-        ),
+        Cell: ({ row }) => {
+          const rowLevelErrors = getRowLevelErrors(row);
+          return (
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              {rowLevelErrors.length > 0 && (
+                <Tooltip title={rowLevelErrors.join('; ')} arrow>
+                  <ErrorIcon fontSize="small" color="error" />
+                </Tooltip>
+              )}
+              <IconButton
+                size="small"
+                onClick={() => onEditRow(row)}
+                color="primary"
+              >
+                <EditIcon fontSize="small" />
+              </IconButton>
+              <IconButton
+                size="small"
+                onClick={() => onDeleteRow(row)}
+                color="error"
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          );
+        },
       },
     ];
-  }, [originalColumns, onEditRow, onDeleteRow]);
+  }, [sourceColumns, rowErrors, onEditRow, onDeleteRow, isPreview]);
 
   const table = useMaterialReactTable({
     columns,
-    data: csvData,
+    data: tableData,
+    getRowId: (row) => String(rowIndexLookup.get(row)),
     enableRowSelection: false,
     enableColumnOrdering: true,
     enableGlobalFilter: true,
+    muiTableBodyRowProps: ({ row }) => ({
+      sx: parseIssueRows.has(Number(row.id)) ? { backgroundColor: '#fff8e1' } : undefined,
+    }),
     muiTableContainerProps: {
       sx: {
         maxHeight: '500px',
@@ -86,8 +175,59 @@ const DataGridSection: React.FC<DataGridSectionProps> = ({
   return (
     <Paper sx={{ p: 3, mb: 3 }}>
       <Typography variant="h6" gutterBottom>
-        3. Review & Edit Data
+        {title}
       </Typography>
+
+      {isPreview && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Showing the first {csvData.length} rows while the rest of the file loads. Editing is available once loading finishes.
+        </Alert>
+      )}
+
+      {onFixRow && onDropRows && onKeepRows && !isPreview && (
+        <ParseIssuesPanel
+          issues={parseIssues}
+          onFixRow={onFixRow}
+          onDropRows={onDropRows}
+          onKeepRows={onKeepRows}
+        />
+      )}
+
+      {onExcludeInvalidRowsChange && !isPreview && (summary.invalidRowCount > 0 ? (
+        <Alert severity={excludeInvalidRows ? 'warning' : 'error'} sx={{ mb: 2 }}>
+          <Typography variant="body2">
+            <strong>{summary.invalidCellCount} invalid cells</strong> in {summary.invalidRowCount} of {csvData.length} rows.
+            {' '}Fix them in the grid or exclude those rows before uploading.
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 3, mt: 1 }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  size="small"
+                  checked={showOnlyErrors}
+                  onChange={(e) => setShowOnlyErrors(e.target.checked)}
+                />
+              }
+              label="Show only rows with errors"
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  size="small"
+                  checked={excludeInvalidRows}
+                  onChange={(e) => onExcludeInvalidRowsChange(e.target.checked)}
+                />
+              }
+              label={`Exclude ${summary.invalidRowCount} invalid rows from upload`}
+            />
+          </Box>
+        </Alert>
+      ) : (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          All mapped values are valid.
+        </Alert>
+      ))}
+
       <MaterialReactTable table={table} />
     </Paper>
   );
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Checkbox,
+  Chip,
+  Button,
+  Stack,
+} from '@mui/material';
+import { ExpandMore as ExpandMoreIcon } from '@mui/icons-material';
+import { type PlannedRecord } from '../lib/importPlan';
+import { diffRecords, getAcceptedChanges, type FieldChange } from '../lib/recordDiff';
+
+interface DiffReviewSectionProps {
+  updates: PlannedRecord[];
+  // Natural key → ids of the field changes the user rejected
+  rejectedChanges: Record<string, string[]>;
+  onRejectedChangesChange: (rejectedChanges: Record<string, string[]>) => void;
+}
+
+const PAGE_SIZE = 25;
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const DiffReviewSection: React.FC<DiffReviewSectionProps> = ({
+  updates,
+  rejectedChanges,
+  onRejectedChangesChange,
+}) => {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const diffs = useMemo(
+    () => updates.map(planned => ({ planned, changes: diffRecords(planned.existing, planned.record) })),
+    [updates]
+  );
+
+  if (diffs.length === 0) return null;
+
+  const toggleChange = (key: string, change: FieldChange) => {
+    const rejected = rejectedChanges[key] || [];
+    onRejectedChangesChange({
+      ...rejectedChanges,
+      [key]: rejected.includes(change.id)
+        ? rejected.filter(id => id !== change.id)
+        : [...rejected, change.id],
+    });
+  };
+
+  const setRowRejected = (key: string, changes: FieldChange[], reject: boolean) => {
+    onRejectedChangesChange({
+      ...rejectedChanges,
+      [key]: reject ? changes.map(change => change.id) : [],
+    });
+  };
+
+  const rejectAll = () => {
+    const next: Record<string, string[]> = {};
+    diffs.forEach(({ planned, changes }) => {
+      next[planned.key] = changes.map(change => change.id);
+    });
+    onRejectedChangesChange(next);
+  };
+
+  const totalChanges = diffs.reduce((count, { changes }) => count + changes.length, 0);
+  const acceptedTotal = diffs.reduce(
+    (count, { planned, changes }) => count + getAcceptedChanges(changes, rejectedChanges[planned.key]).length,
+    0
+  );
+
+  return (
+    <Paper sx={{ p: 3, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h6">Review Changes to Existing Records</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {diffs.length} records will be updated · {acceptedTotal} of {totalChanges} field changes accepted
+          </Typography>
+        </Box>
+        <Stack direction="row" spacing={1}>
+          <Button size="small" onClick={() => onRejectedChangesChange({})}>
+            Accept all
+          </Button>
+          <Button size="small" color="error" onClick={rejectAll}>
+            Reject all
+          </Button>
+        </Stack>
+      </Box>
+
+      {diffs.slice(0, visibleCount).map(({ planned, changes }) => {
+        const rejected = rejectedChanges[planned.key] || [];
+        const acceptedCount = getAcceptedChanges(changes, rejected).length;
+
+        return (
+          <Accordion key={planned.key} disableGutters variant="outlined">
+            <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, width: '100%' }}>
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                  Row {planned.index + 1}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+                  {JSON.parse(planned.key).join(' / ')}
+                </Typography>
+                <Chip
+                  size="small"
+                  label={`${acceptedCount}/${changes.length} changes accepted`}
+                  color={acceptedCount === 0 ? 'default' : 'primary'}
+                  variant={acceptedCount === changes.length ? 'filled' : 'outlined'}
+                />
+              </Box>
+            </AccordionSummary>
+            <AccordionDetails>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        size="small"
+                        checked={acceptedCount === changes.length}
+                        indeterminate={acceptedCount > 0 && acceptedCount < changes.length}
+                        onChange={(e) => setRowRejected(planned.key, changes, !e.target.checked)}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Field</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Before</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>After</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {changes.map(change => {
+                    const accepted = !rejected.includes(change.id);
+                    return (
+                      <TableRow key={change.id} sx={{ opacity: accepted ? 1 : 0.5 }}>
+                        <TableCell padding="checkbox">
+                          <Checkbox
+                            size="small"
+                            checked={accepted}
+                            onChange={() => toggleChange(planned.key, change)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {change.metaKey !== undefined ? `metaData.${change.metaKey}` : change.field}
+                        </TableCell>
+                        <TableCell sx={{ color: 'error.main', textDecoration: accepted ? 'line-through' : 'none' }}>
+                          {formatValue(change.before)}
+                        </TableCell>
+                        <TableCell sx={{ color: 'success.main' }}>
+                          {formatValue(change.after)}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </AccordionDetails>
+          </Accordion>
+        );
+      })}
+
+      {diffs.length > visibleCount && (
+        <Box sx={{ textAlign: 'center', mt: 2 }}>
+          <Button onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+            Show more ({diffs.length - visibleCount} remaining)
+          </Button>
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default DiffReviewSection;
@@ -8,31 +8,39 @@ import {
   Button,
   TextField,
   Stack,
+  Alert,
+  Typography,
 } from '@mui/material';
 
-interface CSVData {
-  [key: string]: any;
-}
+import { type CSVData, type SourceColumn } from '../types/import';
+import { type ParseIssue } from '../lib/parseIssues';
 
 interface EditRowDialogProps {
   open: boolean;
-  originalColumns: string[];
+  sourceColumns: SourceColumn[];
   editFormData: CSVData;
   onClose: () => void;
   onSave: () => void;
   onFormDataChange: (data: CSVData) => void;
+  // Parse problems of the row being edited; their source text helps put fields back in place
+  rowIssues?: ParseIssue[];
 }
 
+const NO_ROW_ISSUES: ParseIssue[] = [];
+
 const EditRowDialog: React.FC<EditRowDialogProps> = ({
   open,
-  originalColumns,
+  sourceColumns,
   editFormData,
   onClose,
   onSave,
   onFormDataChange,
+  rowIssues = NO_ROW_ISSUES,
 }) => {
-  const handleFieldChange = (column: string, value: string) => {
-    onFormDataChange({ ...editFormData, [column]: value });
+  const extraFields = rowIssues.flatMap(issue => issue.extraFields || []);
+
+  const handleFieldChange = (columnId: string, value: string) => {
+    onFormDataChange({ ...editFormData, [columnId]: value });
   };
 
   return (
@@ -40,12 +48,25 @@ const EditRowDialog: React.FC<EditRowDialogProps> = ({
       <DialogTitle>Edit Row</DialogTitle>
       <DialogContent>
         <Stack spacing={2} sx={{ mt: 1 }}>
-          {originalColumns.map((column) => (
+          {rowIssues.length > 0 && (
+            <Alert severity="warning">
+              <Typography variant="body2">Line in the file:</Typography>
+              <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                {rowIssues[0].raw}
+              </Typography>
+              {extraFields.length > 0 && (
+                <Typography variant="body2" sx={{ mt: 1 }}>
+                  Fields past the last column: {extraFields.map(field => `"${field}"`).join(', ')}
+                </Typography>
+              )}
+            </Alert>
+          )}
+          {sourceColumns.map((column) => (
             <TextField
-              key={column}
-              label={column}
-              value={editFormData[column] || ''}
-              onChange={(e) => handleFieldChange(column, e.target.value)}
+              key={column.id}
+              label={column.name}
+              value={editFormData[column.id] || ''}
+              onChange={(e) => handleFieldChange(column.id, e.target.value)}
               fullWidth
             />
           ))}
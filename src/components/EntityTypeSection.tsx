@@ -0,0 +1,68 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Card,
+  CardActionArea,
+  CardContent,
+  Chip,
+} from '@mui/material';
+import { CheckCircle as CheckCircleIcon } from '@mui/icons-material';
+import { getRequiredFields, type EntitySchema } from '../schemas';
+
+interface EntityTypeSectionProps {
+  entitySchemas: EntitySchema[];
+  selectedEntityId: string;
+  onEntityChange: (entityId: string) => void;
+}
+
+const EntityTypeSection: React.FC<EntityTypeSectionProps> = ({
+  entitySchemas,
+  selectedEntityId,
+  onEntityChange,
+}) => {
+  return (
+    <Paper elevation={2} sx={{ p: 4, mb: 3, backgroundColor: '#f8f9fa', borderRadius: 2 }}>
+      <Typography variant="h5" gutterBottom sx={{ fontWeight: 600, color: '#1976d2' }}>
+        Choose What You're Importing
+      </Typography>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))', gap: 2, mt: 2 }}>
+        {entitySchemas.map(entity => {
+          const selected = entity.id === selectedEntityId;
+          return (
+            <Card
+              key={entity.id}
+              variant="outlined"
+              sx={{
+                borderColor: selected ? 'primary.main' : undefined,
+                borderWidth: selected ? 2 : 1,
+                backgroundColor: selected ? '#f8faff' : undefined,
+              }}
+            >
+              <CardActionArea onClick={() => onEntityChange(entity.id)} sx={{ height: '100%' }}>
+                <CardContent>
+                  <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                    <Typography variant="h6">{entity.label}</Typography>
+                    {selected && <CheckCircleIcon color="primary" />}
+                  </Box>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+                    {entity.description}
+                  </Typography>
+                  <Chip
+                    size="small"
+                    variant="outlined"
+                    label={`${entity.dtoName} · ${getRequiredFields(entity).length} required fields`}
+                  />
+                </CardContent>
+              </CardActionArea>
+            </Card>
+          );
+        })}
+      </Box>
+    </Paper>
+  );
+};
+
+export default EntityTypeSection;
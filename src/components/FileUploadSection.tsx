@@ -7,37 +7,55 @@ import {
   Button, 
   Chip,
   Alert,
-  Stack
+  Stack,
+  LinearProgress
 } from '@mui/material';
 import { 
   Upload as UploadIcon, 
-  CloudUpload as CloudUploadIcon,
-  CheckCircle as CheckCircleIcon 
+  CheckCircle as CheckCircleIcon,
+  Close as CloseIcon,
+  ContentPaste as ContentPasteIcon
 } from '@mui/icons-material';
+import { formatBytes, type CsvParseProgress } from '../lib/csvStream';
+import { EXCEL_EXTENSIONS } from '../lib/excelParser';
+import { FEED_EXTENSIONS } from '../lib/feedParser';
+
+const ACCEPTED_FILE_TYPES = ['.csv', ...EXCEL_EXTENSIONS, ...FEED_EXTENSIONS].join(',');
 
 interface FileUploadSectionProps {
   onFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
   dataCount: number;
   columnCount: number;
-  onUploadToAPI?: () => void;
+  // Set while a CSV file is streaming in
+  parseProgress?: CsvParseProgress | null;
+  onCancelParse?: () => void;
+  onPasteData?: () => void;
 }
 
 const FileUploadSection: React.FC<FileUploadSectionProps> = ({
   onFileUpload,
   dataCount,
   columnCount,
-  onUploadToAPI,
+  parseProgress,
+  onCancelParse,
+  onPasteData,
 }) => {
+  const isParsing = Boolean(parseProgress);
+
   return (
     <Paper elevation={2} sx={{ p: 4, mb: 3, backgroundColor: '#f8f9fa', borderRadius: 2 }}>
       <Typography variant="h5" gutterBottom sx={{ fontWeight: 600, color: '#1976d2' }}>
-        Step 1: Upload Your CSV File
+        Upload Your Data File
       </Typography>
       
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Supported formats: CSV, Excel (.xlsx, .xls), JSON, NDJSON and XML feeds, or paste cells copied from a spreadsheet.
+      </Typography>
+
       <Stack spacing={3}>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
           <input
-            accept=".csv"
+            accept={ACCEPTED_FILE_TYPES}
             style={{ display: 'none' }}
             id="csv-file-upload"
             type="file"
@@ -51,11 +69,22 @@ const FileUploadSection: React.FC<FileUploadSectionProps> = ({
               size="large"
               sx={{ minWidth: 200 }}
             >
-              Choose CSV File
+              Choose File
             </Button>
           </label>
+
+          {onPasteData && (
+            <Button
+              variant="outlined"
+              startIcon={<ContentPasteIcon />}
+              size="large"
+              onClick={onPasteData}
+            >
+              Paste Data
+            </Button>
+          )}
           
-          {dataCount > 0 && (
+          {dataCount > 0 && !isParsing && (
             <Box sx={{ display: 'flex', gap: 1 }}>
               <Chip 
                 icon={<CheckCircleIcon />} 
@@ -72,28 +101,33 @@ const FileUploadSection: React.FC<FileUploadSectionProps> = ({
           )}
         </Box>
 
-        {dataCount > 0 && (
+        {parseProgress && (
+          <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+              <Typography variant="body2" color="text.secondary">
+                Reading file… {formatBytes(parseProgress.bytesRead)} of {formatBytes(parseProgress.totalBytes)}
+                {' '}· {parseProgress.rowCount.toLocaleString()} rows
+              </Typography>
+              {onCancelParse && (
+                <Button size="small" color="error" startIcon={<CloseIcon />} onClick={onCancelParse}>
+                  Cancel
+                </Button>
+              )}
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              value={parseProgress.totalBytes > 0 ? (parseProgress.bytesRead / parseProgress.totalBytes) * 100 : 0}
+            />
+          </Box>
+        )}
+
+        {dataCount > 0 && !isParsing && (
           <Alert severity="success">
             <Typography variant="body2">
-              CSV file loaded successfully! Now map your columns in Step 2, then upload to API.
+              File loaded successfully! Continue to check how it was parsed.
             </Typography>
           </Alert>
         )}
-
-        {dataCount > 0 && onUploadToAPI && (
-          <Box sx={{ pt: 2 }}>
-            <Button
-              variant="contained"
-              color="secondary"
-              startIcon={<CloudUploadIcon />}
-              onClick={onUploadToAPI}
-              size="large"
-              sx={{ minWidth: 200 }}
-            >
-              Upload to API
-            </Button>
-          </Box>
-        )}
       </Stack>
     </Paper>
   );
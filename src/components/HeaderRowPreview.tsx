@@ -0,0 +1,72 @@
+import React from 'react';
+import {
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableRow,
+  Paper,
+} from '@mui/material';
+
+interface HeaderRowPreviewProps {
+  rows: string[][];
+  headerRowIndex: number;
+  onHeaderRowChange: (rowIndex: number) => void;
+  // Shown instead of the table when there are no rows
+  emptyMessage: string;
+}
+
+const PREVIEW_ROW_COUNT = 8;
+
+// The first rows of a sheet or file; clicking a row makes it the header and dims the rows above it
+const HeaderRowPreview: React.FC<HeaderRowPreviewProps> = ({
+  rows,
+  headerRowIndex,
+  onHeaderRowChange,
+  emptyMessage,
+}) => {
+  if (rows.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        {emptyMessage}
+      </Typography>
+    );
+  }
+
+  // The header row and the first row after it are always shown
+  const previewRows = rows.slice(0, Math.max(PREVIEW_ROW_COUNT, headerRowIndex + 2));
+
+  return (
+    <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 320 }}>
+      <Table size="small">
+        <TableBody>
+          {previewRows.map((row, rowIndex) => (
+            <TableRow
+              key={rowIndex}
+              hover
+              onClick={() => onHeaderRowChange(rowIndex)}
+              sx={{
+                cursor: 'pointer',
+                backgroundColor: rowIndex === headerRowIndex ? '#e3f2fd' : undefined,
+                opacity: rowIndex < headerRowIndex ? 0.4 : 1,
+              }}
+            >
+              <TableCell sx={{ color: 'text.secondary', width: 40 }}>{rowIndex + 1}</TableCell>
+              {row.map((cell, cellIndex) => (
+                <TableCell
+                  key={cellIndex}
+                  sx={{ fontWeight: rowIndex === headerRowIndex ? 600 : 400, whiteSpace: 'nowrap' }}
+                >
+                  {cell}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default HeaderRowPreview;
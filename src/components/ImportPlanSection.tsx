@@ -0,0 +1,130 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Stack,
+  Chip,
+  Alert,
+  Button,
+  ListItemText,
+  List,
+  ListItem,
+  TextField,
+} from '@mui/material';
+import {
+  CloudUpload as CloudUploadIcon,
+  AddCircle as AddCircleIcon,
+  Sync as SyncIcon,
+  DoNotDisturbOn as DoNotDisturbOnIcon,
+  RemoveCircleOutline as RemoveCircleOutlineIcon,
+} from '@mui/icons-material';
+import { type ImportPlan } from '../lib/importPlan';
+import { clampBatchSize, MAX_BATCH_SIZE } from '../lib/chunkedUpload';
+
+interface ImportPlanSectionProps {
+  plan: ImportPlan;
+  // Rows that will actually be sent; updates with every change rejected are left out
+  createCount: number;
+  updateCount: number;
+  existingRecordCount: number;
+  batchSize: number;
+  onBatchSizeChange: (size: number) => void;
+  onUploadToAPI: () => void;
+  isUploading?: boolean;
+  // Why the upload can't start yet, e.g. existing records are still loading
+  uploadBlocker?: string | null;
+}
+
+const MAX_LISTED_SKIPS = 5;
+
+const ImportPlanSection: React.FC<ImportPlanSectionProps> = ({
+  plan,
+  createCount,
+  updateCount,
+  existingRecordCount,
+  batchSize,
+  onBatchSizeChange,
+  onUploadToAPI,
+  isUploading = false,
+  uploadBlocker,
+}) => {
+  const skippedRecords = plan.records.filter(planned => planned.action === 'skip');
+  const pendingCount = createCount + updateCount;
+  // Updates whose changes were all rejected leave the existing record as it is
+  const unchangedCount = plan.counts.unchanged + plan.counts.update - updateCount;
+
+  return (
+    <Paper elevation={2} sx={{ p: 4, mb: 3, backgroundColor: '#f8f9fa', borderRadius: 2 }}>
+      <Typography variant="h5" gutterBottom sx={{ fontWeight: 600, color: '#1976d2' }}>
+        Import Summary
+      </Typography>
+
+      <Stack spacing={3}>
+        <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', alignItems: 'center' }}>
+          <TextField
+            type="number"
+            size="small"
+            label="Rows per request"
+            value={batchSize}
+            onChange={(e) => onBatchSizeChange(clampBatchSize(Number(e.target.value)))}
+            inputProps={{ min: 1, max: MAX_BATCH_SIZE }}
+            sx={{ width: 160 }}
+          />
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+          <Chip icon={<AddCircleIcon />} label={`${createCount} to create`} color="success" />
+          <Chip icon={<SyncIcon />} label={`${updateCount} to update`} color="primary" />
+          <Chip icon={<RemoveCircleOutlineIcon />} label={`${unchangedCount} unchanged`} variant="outlined" />
+          <Chip icon={<DoNotDisturbOnIcon />} label={`${plan.counts.skip} skipped`} color="warning" variant="outlined" />
+        </Box>
+
+        <Typography variant="body2" color="text.secondary">
+          Compared against {existingRecordCount} existing records.
+        </Typography>
+
+        {skippedRecords.length > 0 && (
+          <Alert severity="warning">
+            <Typography variant="body2" sx={{ fontWeight: 600 }}>
+              {skippedRecords.length} rows will be skipped:
+            </Typography>
+            <List dense disablePadding>
+              {skippedRecords.slice(0, MAX_LISTED_SKIPS).map(planned => (
+                <ListItem key={planned.index} disableGutters sx={{ py: 0 }}>
+                  <ListItemText
+                    primaryTypographyProps={{ variant: 'body2' }}
+                    primary={`Row ${planned.index + 1}: ${planned.reason}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+            {skippedRecords.length > MAX_LISTED_SKIPS && (
+              <Typography variant="body2">…and {skippedRecords.length - MAX_LISTED_SKIPS} more</Typography>
+            )}
+          </Alert>
+        )}
+
+        {uploadBlocker && (
+          <Alert severity="warning">{uploadBlocker}</Alert>
+        )}
+
+        <Box>
+          <Button
+            variant="contained"
+            color="secondary"
+            startIcon={<CloudUploadIcon />}
+            onClick={onUploadToAPI}
+            size="large"
+            disabled={isUploading || pendingCount === 0 || Boolean(uploadBlocker)}
+            sx={{ minWidth: 200 }}
+          >
+            {isUploading ? 'Uploading...' : 'Upload to API'}
+          </Button>
+        </Box>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default ImportPlanSection;
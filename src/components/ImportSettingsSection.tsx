@@ -0,0 +1,85 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Stack,
+  Alert,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Checkbox,
+  ListItemText,
+} from '@mui/material';
+import { IMPORT_MODE_LABELS, type ImportMode } from '../lib/importPlan';
+
+interface ImportSettingsSectionProps {
+  importMode: ImportMode;
+  keyFields: string[];
+  availableKeyFields: string[];
+  onImportModeChange: (mode: ImportMode) => void;
+  onKeyFieldsChange: (fields: string[]) => void;
+}
+
+// Decides which rows become updates, so it comes before the changes are reviewed
+const ImportSettingsSection: React.FC<ImportSettingsSectionProps> = ({
+  importMode,
+  keyFields,
+  availableKeyFields,
+  onImportModeChange,
+  onKeyFieldsChange,
+}) => (
+  <Paper elevation={2} sx={{ p: 4, mb: 3, backgroundColor: '#f8f9fa', borderRadius: 2 }}>
+    <Typography variant="h5" gutterBottom sx={{ fontWeight: 600, color: '#1976d2' }}>
+      Import Mode & Matching
+    </Typography>
+
+    <Stack spacing={3}>
+      <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', alignItems: 'center' }}>
+        <ToggleButtonGroup
+          value={importMode}
+          exclusive
+          size="small"
+          color="primary"
+          onChange={(_, mode: ImportMode | null) => mode && onImportModeChange(mode)}
+        >
+          {(Object.keys(IMPORT_MODE_LABELS) as ImportMode[]).map(mode => (
+            <ToggleButton key={mode} value={mode}>
+              {IMPORT_MODE_LABELS[mode]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+
+        <FormControl size="small" sx={{ minWidth: 280 }}>
+          <InputLabel>Match existing records on</InputLabel>
+          <Select
+            multiple
+            value={keyFields}
+            label="Match existing records on"
+            onChange={(e) => {
+              const value = e.target.value;
+              onKeyFieldsChange(typeof value === 'string' ? value.split(',') : value);
+            }}
+            renderValue={(selected) => selected.join(' + ')}
+          >
+            {availableKeyFields.map(field => (
+              <MenuItem key={field} value={field}>
+                <Checkbox size="small" checked={keyFields.includes(field)} />
+                <ListItemText primary={field} />
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      {keyFields.length === 0 && (
+        <Alert severity="error">Select at least one field to match existing records on.</Alert>
+      )}
+    </Stack>
+  </Paper>
+);
+
+export default ImportSettingsSection;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Paper, Stepper, Step, StepButton, StepLabel } from '@mui/material';
+import { IMPORT_STEPS, type ImportStepId } from '../lib/importWizard';
+
+interface ImportStepperProps {
+  activeStep: ImportStepId;
+  // Steps after this index can't be opened until the ones before them are complete
+  reachableIndex: number;
+  onStepChange: (step: ImportStepId) => void;
+}
+
+const ImportStepper: React.FC<ImportStepperProps> = ({ activeStep, reachableIndex, onStepChange }) => {
+  const activeIndex = IMPORT_STEPS.findIndex(step => step.id === activeStep);
+
+  return (
+    <Paper elevation={1} sx={{ p: 2, mb: 3, borderRadius: 2 }}>
+      <Stepper nonLinear activeStep={activeIndex}>
+        {IMPORT_STEPS.map((step, index) => (
+          <Step key={step.id} completed={index < activeIndex}>
+            <StepButton onClick={() => onStepChange(step.id)} disabled={index > reachableIndex}>
+              <StepLabel>{step.label}</StepLabel>
+            </StepButton>
+          </Step>
+        ))}
+      </Stepper>
+    </Paper>
+  );
+};
+
+export default ImportStepper;
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Card,
+  CardContent,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Bookmarks as BookmarksIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Check as CheckIcon,
+  Close as CloseIcon,
+} from '@mui/icons-material';
+import { type MappingProfile, type ProfileMatch } from '../lib/mappingProfiles';
+
+interface MappingProfilesPanelProps {
+  profiles: MappingProfile[];
+  appliedProfile: ProfileMatch | null;
+  onSave: (name: string) => void;
+  onApply: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const MappingProfilesPanel: React.FC<MappingProfilesPanelProps> = ({
+  profiles,
+  appliedProfile,
+  onSave,
+  onApply,
+  onRename,
+  onDelete,
+}) => {
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [manageDialogOpen, setManageDialogOpen] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const openSaveDialog = () => {
+    setProfileName(appliedProfile?.profile.name || '');
+    setSaveDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    onSave(profileName.trim());
+    setSaveDialogOpen(false);
+  };
+
+  const handleRenameConfirm = () => {
+    if (renaming && renaming.name.trim()) {
+      onRename(renaming.id, renaming.name.trim());
+    }
+    setRenaming(null);
+  };
+
+  const nameExists = profiles.some(profile => profile.name === profileName.trim());
+
+  return (
+    <Card sx={{ mb: 3, border: '1px solid #e0e0e0' }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <Typography variant="subtitle1" sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+            <BookmarksIcon color="primary" />
+            Mapping Profiles
+          </Typography>
+
+          <FormControl size="small" sx={{ minWidth: 240 }} disabled={profiles.length === 0}>
+            <InputLabel>Apply saved profile</InputLabel>
+            <Select
+              value={appliedProfile?.profile.id || ''}
+              label="Apply saved profile"
+              onChange={(e) => onApply(e.target.value)}
+            >
+              {profiles.map(profile => (
+                <MenuItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <Button variant="outlined" startIcon={<SaveIcon />} onClick={openSaveDialog}>
+            Save as Profile
+          </Button>
+          <Button
+            variant="text"
+            onClick={() => setManageDialogOpen(true)}
+            disabled={profiles.length === 0}
+          >
+            Manage ({profiles.length})
+          </Button>
+        </Box>
+
+        {appliedProfile && (
+          <Alert
+            severity={appliedProfile.addedHeaders.length || appliedProfile.missingHeaders.length ? 'warning' : 'success'}
+            sx={{ mt: 2 }}
+          >
+            <Typography variant="body2">
+              Applied profile <strong>{appliedProfile.profile.name}</strong>.
+            </Typography>
+            {appliedProfile.addedHeaders.length > 0 && (
+              <Typography variant="body2">
+                <strong>New columns since the profile was saved:</strong> {appliedProfile.addedHeaders.join(', ')}
+              </Typography>
+            )}
+            {appliedProfile.missingHeaders.length > 0 && (
+              <Typography variant="body2">
+                <strong>Columns missing from this file:</strong> {appliedProfile.missingHeaders.join(', ')}
+              </Typography>
+            )}
+          </Alert>
+        )}
+      </CardContent>
+
+      {/* Save Dialog */}
+      <Dialog open={saveDialogOpen} onClose={() => setSaveDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save Mapping Profile</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            label="Profile name"
+            placeholder="e.g. Acme weekly catalog"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            helperText={nameExists ? 'A profile with this name exists and will be overwritten' : ' '}
+            fullWidth
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveDialogOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave} variant="contained" disabled={!profileName.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Manage Dialog */}
+      <Dialog open={manageDialogOpen} onClose={() => setManageDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Manage Mapping Profiles</DialogTitle>
+        <DialogContent>
+          <List>
+            {profiles.map(profile => (
+              <ListItem
+                key={profile.id}
+                divider
+                secondaryAction={
+                  renaming?.id === profile.id ? (
+                    <Box>
+                      <IconButton onClick={handleRenameConfirm} color="primary">
+                        <CheckIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton onClick={() => setRenaming(null)}>
+                        <CloseIcon fontSize="small" />
+                      </IconButton>
+                    </Box>
+                  ) : (
+                    <Box>
+                      <IconButton onClick={() => setRenaming({ id: profile.id, name: profile.name })} color="primary">
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton onClick={() => onDelete(profile.id)} color="error">
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Box>
+                  )
+                }
+              >
+                {renaming?.id === profile.id ? (
+                  <TextField
+                    size="small"
+                    autoFocus
+                    value={renaming.name}
+                    onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRenameConfirm()}
+                    sx={{ mr: 10 }}
+                    fullWidth
+                  />
+                ) : (
+                  <ListItemText
+                    primary={profile.name}
+                    secondary={`${Object.keys(profile.mappings).length} columns · updated ${new Date(profile.updatedAt).toLocaleDateString()}`}
+                  />
+                )}
+              </ListItem>
+            ))}
+          </List>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setManageDialogOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default MappingProfilesPanel;
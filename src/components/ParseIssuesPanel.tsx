@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Chip,
+  Button,
+  Stack,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import {
+  ExpandMore as ExpandMoreIcon,
+  WarningAmber as WarningAmberIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Check as CheckIcon,
+} from '@mui/icons-material';
+import { PARSE_ISSUE_LABELS, type ParseIssue, type ParseIssueType } from '../lib/parseIssues';
+
+interface ParseIssuesPanelProps {
+  issues: ParseIssue[];
+  onFixRow: (rowIndex: number) => void;
+  onDropRows: (rowIndexes: number[]) => void;
+  onKeepRows: (rowIndexes: number[]) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const ParseIssuesPanel: React.FC<ParseIssuesPanelProps> = ({
+  issues,
+  onFixRow,
+  onDropRows,
+  onKeepRows,
+}) => {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  // A row can have several issues (e.g. a bad quote that also shifts the field count)
+  const issuesByRow = useMemo(() => {
+    const grouped = new Map<number, ParseIssue[]>();
+    issues.forEach(issue => {
+      grouped.set(issue.rowIndex, [...(grouped.get(issue.rowIndex) || []), issue]);
+    });
+    return Array.from(grouped.entries()).sort(([a], [b]) => a - b);
+  }, [issues]);
+
+  const countsByType = useMemo(() => {
+    const counts = new Map<ParseIssueType, number>();
+    issues.forEach(issue => counts.set(issue.type, (counts.get(issue.type) || 0) + 1));
+    return Array.from(counts.entries());
+  }, [issues]);
+
+  if (issuesByRow.length === 0) return null;
+
+  const allRowIndexes = issuesByRow.map(([rowIndex]) => rowIndex);
+
+  return (
+    <Accordion variant="outlined" sx={{ mb: 2, borderColor: 'warning.main' }}>
+      <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <WarningAmberIcon color="warning" />
+          <Typography variant="body2" sx={{ fontWeight: 600, mr: 1 }}>
+            {issuesByRow.length} rows could not be parsed cleanly
+          </Typography>
+          {countsByType.map(([type, count]) => (
+            <Chip key={type} size="small" variant="outlined" color="warning" label={`${PARSE_ISSUE_LABELS[type]}: ${count}`} />
+          ))}
+        </Box>
+      </AccordionSummary>
+      <AccordionDetails>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1, flexWrap: 'wrap', gap: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Fix each row in the grid, drop it, or keep it as parsed. Rows must be resolved before uploading.
+          </Typography>
+          <Stack direction="row" spacing={1}>
+            <Button size="small" onClick={() => onKeepRows(allRowIndexes)}>
+              Keep all
+            </Button>
+            <Button size="small" color="error" onClick={() => onDropRows(allRowIndexes)}>
+              Drop all
+            </Button>
+          </Stack>
+        </Box>
+
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600, width: 80 }}>Row</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Problem</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Raw line</TableCell>
+              <TableCell sx={{ fontWeight: 600, width: 130 }} align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {issuesByRow.slice(0, visibleCount).map(([rowIndex, rowIssues]) => (
+              <TableRow key={rowIndex}>
+                <TableCell>{rowIndex + 1}</TableCell>
+                <TableCell>
+                  {rowIssues.map((issue, index) => (
+                    <Typography key={index} variant="body2">
+                      <strong>{PARSE_ISSUE_LABELS[issue.type]}</strong> · {issue.message}
+                    </Typography>
+                  ))}
+                </TableCell>
+                <TableCell sx={{ maxWidth: 360 }}>
+                  <Typography variant="body2" noWrap sx={{ fontFamily: 'monospace' }} title={rowIssues[0].raw}>
+                    {rowIssues[0].raw}
+                  </Typography>
+                </TableCell>
+                <TableCell align="right">
+                  <Tooltip title="Fix in editor">
+                    <IconButton size="small" color="primary" onClick={() => onFixRow(rowIndex)}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Keep as parsed">
+                    <IconButton size="small" onClick={() => onKeepRows([rowIndex])}>
+                      <CheckIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Drop row">
+                    <IconButton size="small" color="error" onClick={() => onDropRows([rowIndex])}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {issuesByRow.length > visibleCount && (
+          <Box sx={{ textAlign: 'center', mt: 2 }}>
+            <Button onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+              Show more ({issuesByRow.length - visibleCount} remaining)
+            </Button>
+          </Box>
+        )}
+      </AccordionDetails>
+    </Accordion>
+  );
+};
+
+export default ParseIssuesPanel;
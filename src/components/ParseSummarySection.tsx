@@ -0,0 +1,44 @@
+import React from 'react';
+import { Box, Typography, Paper, Button, Chip } from '@mui/material';
+import { Settings as SettingsIcon, Description as DescriptionIcon } from '@mui/icons-material';
+
+interface ParseSummarySectionProps {
+  sourceName: string;
+  rowCount: number;
+  columnCount: number;
+  issueRowCount: number;
+  // Reopens the delimiter, sheet or record path choice for the same input
+  onChangeSettings?: () => void;
+}
+
+const ParseSummarySection: React.FC<ParseSummarySectionProps> = ({
+  sourceName,
+  rowCount,
+  columnCount,
+  issueRowCount,
+  onChangeSettings,
+}) => (
+  <Paper elevation={2} sx={{ p: 4, mb: 3, backgroundColor: '#f8f9fa', borderRadius: 2 }}>
+    <Typography variant="h5" gutterBottom sx={{ fontWeight: 600, color: '#1976d2' }}>
+      Check How the File Was Read
+    </Typography>
+    <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+      Make sure the columns line up. If they don't, change the parse settings; column mappings are set up again afterwards.
+    </Typography>
+
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+      <Chip icon={<DescriptionIcon />} label={sourceName} variant="outlined" />
+      <Chip label={`${rowCount} rows`} color="success" />
+      <Chip label={`${columnCount} columns`} color="primary" variant="outlined" />
+      {issueRowCount > 0 && <Chip label={`${issueRowCount} rows need review`} color="warning" />}
+      <Box sx={{ flex: 1 }} />
+      {onChangeSettings && (
+        <Button variant="outlined" startIcon={<SettingsIcon />} onClick={onChangeSettings}>
+          Change parse settings
+        </Button>
+      )}
+    </Box>
+  </Paper>
+);
+
+export default ParseSummarySection;
@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Stack,
+  TextField,
+  FormControlLabel,
+  Checkbox,
+  Typography,
+} from '@mui/material';
+import { ContentPaste as ContentPasteIcon } from '@mui/icons-material';
+import { parsePastedText } from '../lib/clipboardParser';
+
+interface PasteDataDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (rows: string[][]) => void;
+}
+
+const PasteDataDialog: React.FC<PasteDataDialogProps> = ({ open, onClose, onConfirm }) => {
+  const [text, setText] = useState('');
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+  const [clipboardError, setClipboardError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setText('');
+      setHasHeaderRow(true);
+      setClipboardError(null);
+    }
+  }, [open]);
+
+  const rows = useMemo(() => parsePastedText(text, hasHeaderRow), [text, hasHeaderRow]);
+  const dataRowCount = Math.max(rows.length - 1, 0);
+  const columnCount = rows[0]?.length || 0;
+
+  // Browsers may refuse clipboard access; pasting into the field still works
+  const readClipboard = async () => {
+    try {
+      setText(await navigator.clipboard.readText());
+      setClipboardError(null);
+    } catch {
+      setClipboardError('Clipboard access was blocked. Paste into the box with Ctrl+V / Cmd+V instead.');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Paste Data</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Copy a block of cells from a spreadsheet and paste it below.
+          </Typography>
+
+          <TextField
+            multiline
+            minRows={8}
+            maxRows={16}
+            fullWidth
+            placeholder="Paste cells here"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            error={Boolean(clipboardError)}
+            helperText={clipboardError || (text.trim() ? `${dataRowCount} rows · ${columnCount} columns` : undefined)}
+            inputProps={{ style: { fontFamily: 'monospace', fontSize: 13 } }}
+          />
+
+          <Stack direction="row" spacing={2} alignItems="center">
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={hasHeaderRow}
+                  onChange={(e) => setHasHeaderRow(e.target.checked)}
+                />
+              }
+              label="First row contains column names"
+            />
+            <Button startIcon={<ContentPasteIcon />} onClick={readClipboard}>
+              Read from clipboard
+            </Button>
+          </Stack>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={() => onConfirm(rows)}
+          variant="contained"
+          disabled={dataRowCount === 0}
+        >
+          Load Data
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PasteDataDialog;
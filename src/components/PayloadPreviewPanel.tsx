@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  IconButton,
+  Tooltip,
+  Chip,
+} from '@mui/material';
+import {
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+  ErrorOutline as ErrorOutlineIcon,
+} from '@mui/icons-material';
+import { type CSVData, type ColumnMapping, type ComputedField } from '../types/import';
+import { type EntitySchema } from '../schemas';
+import { transformRow } from '../lib/rowTransform';
+import { hasRowErrors, validatePayload, type RowErrors } from '../lib/rowValidation';
+import { formatPayloadLines } from '../lib/payloadPreview';
+
+interface PayloadPreviewPanelProps {
+  csvData: CSVData[];
+  columnMappings: ColumnMapping[];
+  entity: EntitySchema;
+  // Only computed fields without errors; the others aren't uploaded
+  computedFields: ComputedField[];
+  rowErrors: RowErrors[];
+}
+
+const PayloadPreviewPanel: React.FC<PayloadPreviewPanelProps> = ({
+  csvData,
+  columnMappings,
+  entity,
+  computedFields,
+  rowErrors,
+}) => {
+  const [selectedRow, setSelectedRow] = useState(0);
+  // The file may have shrunk since the row was picked
+  const rowIndex = Math.min(selectedRow, Math.max(csvData.length - 1, 0));
+  const row = csvData[rowIndex];
+
+  const { lines, errors } = useMemo(() => {
+    if (!row) return { lines: [], errors: {} };
+    return {
+      lines: formatPayloadLines(transformRow(row, columnMappings, entity, computedFields)),
+      errors: validatePayload(row, columnMappings, entity.fields, computedFields),
+    };
+  }, [row, columnMappings, entity, computedFields]);
+
+  if (csvData.length === 0) return null;
+
+  const annotatedPaths = new Set(lines.map(line => line.path));
+  // Problems whose value didn't make it into the payload are listed below it
+  const unplacedErrors = Object.entries(errors).filter(([path]) => !annotatedPaths.has(path));
+  const nextRowWithProblems = rowErrors.findIndex((errors, index) => index > rowIndex && hasRowErrors(errors));
+
+  return (
+    <Paper elevation={2} sx={{ p: 3, mb: 3, backgroundColor: '#fafafa', borderRadius: 2 }}>
+      <Typography variant="h6" sx={{ fontWeight: 600, color: '#1976d2' }}>
+        {entity.dtoName} Preview
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        The payload sent for one row, updated as you change the mapping.
+      </Typography>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <IconButton size="small" onClick={() => setSelectedRow(rowIndex - 1)} disabled={rowIndex === 0}>
+          <ChevronLeftIcon />
+        </IconButton>
+        <Typography variant="body2">
+          Row {rowIndex + 1} of {csvData.length}
+        </Typography>
+        <IconButton size="small" onClick={() => setSelectedRow(rowIndex + 1)} disabled={rowIndex >= csvData.length - 1}>
+          <ChevronRightIcon />
+        </IconButton>
+        <Box sx={{ flex: 1 }} />
+        {Object.keys(errors).length > 0 && (
+          <Chip size="small" color="error" label={`${Object.keys(errors).length} problems`} />
+        )}
+        <Tooltip title="Next row with problems">
+          <span>
+            <IconButton
+              size="small"
+              color="error"
+              onClick={() => setSelectedRow(nextRowWithProblems)}
+              disabled={nextRowWithProblems === -1}
+            >
+              <ErrorOutlineIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+
+      <Box
+        component="pre"
+        sx={{
+          m: 0,
+          p: 1.5,
+          maxHeight: 520,
+          overflow: 'auto',
+          fontFamily: 'monospace',
+          fontSize: '0.8rem',
+          backgroundColor: 'background.paper',
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 1,
+        }}
+      >
+        {lines.map((line, index) => {
+          const error = line.path ? errors[line.path] : undefined;
+          return (
+            <Box
+              key={index}
+              component="div"
+              sx={error ? { backgroundColor: 'rgba(211, 47, 47, 0.08)', color: 'error.main' } : undefined}
+            >
+              {line.text}
+              {error && (
+                <Box component="span" sx={{ fontStyle: 'italic', ml: 2 }}>
+                  {`// ${error}`}
+                </Box>
+              )}
+            </Box>
+          );
+        })}
+      </Box>
+
+      {unplacedErrors.map(([path, error]) => (
+        <Typography key={path} variant="caption" color="error" component="div" sx={{ mt: 1 }}>
+          {path}: {error}
+        </Typography>
+      ))}
+    </Paper>
+  );
+};
+
+export default PayloadPreviewPanel;
@@ -25,22 +25,12 @@ import {
 } from 'material-react-table';
 import { useCustomToast } from '../hooks/useCustomToast';
 import EditProductDialog from './EditProductDialog';
-
-interface ProductTypeDto {
-  id?: string;
-  companyID: string;
-  productTypeID: string;
-  companyName: string;
-  productName: string;
-  productDescription: any;
-  productImage: string;
-  globalProductCategory: string;
-  netContent: number;
-  metaData?: Record<string, any>;
-}
+import { type FieldDefinition } from '../schemas/fieldDefinition';
+import { productFields, productFieldNames, type ProductTypeDto } from '../schemas/productType';
 
 interface ProductDataGridProps {
   data: ProductTypeDto[];
+  isLoading?: boolean;
   onUpdate: (id: string, updatedData: ProductTypeDto) => void;
   onDelete: (id: string) => void;
   onImageUpload: (id: string, file: File) => void;
@@ -54,6 +44,7 @@ interface ConfirmationDialogState {
 
 const ProductDataGrid: React.FC<ProductDataGridProps> = ({
   data,
+  isLoading = false,
   onUpdate,
   onDelete,
   onImageUpload,
@@ -115,41 +106,26 @@ const ProductDataGrid: React.FC<ProductDataGridProps> = ({
     }
   };
 
+  const fieldColumns = productFieldNames
+    .filter(name => {
+      const field: FieldDefinition = productFields[name];
+      return field.gridSize !== undefined && field.input !== 'image';
+    })
+    .map((name): MRT_ColumnDef<ProductTypeDto> => {
+      const field: FieldDefinition = productFields[name];
+      return {
+        accessorKey: name,
+        header: field.gridHeader || field.label,
+        size: field.gridSize,
+      };
+    });
+
   const columns: MRT_ColumnDef<ProductTypeDto>[] = [
-    {
-      accessorKey: 'companyID',
-      header: 'Company ID',
-      size: 120,
-    },
-    {
-      accessorKey: 'productTypeID',
-      header: 'Product Type ID',
-      size: 130,
-    },
-    {
-      accessorKey: 'companyName',
-      header: 'Company Name',
-      size: 150,
-    },
-    {
-      accessorKey: 'productName',
-      header: 'Product Name',
-      size: 150,
-    },
-    {
-      accessorKey: 'globalProductCategory',
-      header: 'Category',
-      size: 130,
-    },
-    {
-      accessorKey: 'netContent',
-      header: 'Net Content',
-      size: 100,
-    },
+    ...fieldColumns,
     {
       accessorKey: 'productImage',
-      header: 'Image',
-      size: 100,
+      header: productFields.productImage.gridHeader,
+      size: productFields.productImage.gridSize,
       Cell: ({ cell, row }) => (
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
           {cell.getValue() && (
@@ -207,6 +183,7 @@ const ProductDataGrid: React.FC<ProductDataGridProps> = ({
     enableRowSelection: false,
     enableColumnOrdering: true,
     enableGlobalFilter: true,
+    state: { isLoading },
     muiTableContainerProps: {
       sx: {
         maxHeight: '600px',
@@ -0,0 +1,133 @@
+import React from 'react';
+import {
+  Box,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  InputAdornment,
+} from '@mui/material';
+import { isRequiredField, type FieldDefinition } from '../schemas/fieldDefinition';
+import {
+  productFields,
+  productFieldNames,
+  type ProductFieldName,
+  type ProductTypeDto,
+} from '../schemas/productType';
+
+interface ProductFormFieldsProps {
+  formData: Omit<ProductTypeDto, 'id'>;
+  onChange: (field: ProductFieldName, value: string | number) => void;
+}
+
+// Unit fields are edited through the selector beside their quantity
+const unitFieldNames = new Set(
+  productFieldNames.map(name => (productFields[name] as FieldDefinition).quantity?.unitField).filter(Boolean)
+);
+
+// Renders an input for every non-image field in the product schema, two per row
+const ProductFormFields: React.FC<ProductFormFieldsProps> = ({ formData, onChange }) => {
+  return (
+    <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+      {productFieldNames.map(name => {
+        const field: FieldDefinition = productFields[name];
+        const required = isRequiredField(field);
+        const value = formData[name] ?? '';
+
+        if (unitFieldNames.has(name)) return null;
+
+        switch (field.input) {
+          case 'image':
+            return null;
+          case 'select':
+            return (
+              <FormControl key={name} fullWidth required={required}>
+                <InputLabel>{field.label}</InputLabel>
+                <Select
+                  value={value}
+                  onChange={(e) => onChange(name, e.target.value)}
+                  label={field.label}
+                >
+                  {field.options.map((option) => (
+                    <MenuItem key={option} value={option}>
+                      {option}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            );
+          case 'number': {
+            const unitField = field.quantity?.unitField as ProductFieldName | undefined;
+            const unitOptions = unitField ? (productFields[unitField] as FieldDefinition).options ?? [] : [];
+            return (
+              <TextField
+                key={name}
+                label={field.label}
+                type="number"
+                value={value}
+                onChange={(e) => onChange(name, parseFloat(e.target.value) || 0)}
+                fullWidth
+                required={required}
+                variant="outlined"
+                slotProps={unitField ? {
+                  input: {
+                    endAdornment: (
+                      <InputAdornment position="end">
+                        <Select
+                          variant="standard"
+                          disableUnderline
+                          displayEmpty
+                          value={formData[unitField] ?? ''}
+                          onChange={(e) => onChange(unitField, e.target.value)}
+                        >
+                          <MenuItem value="">
+                            <em>unit</em>
+                          </MenuItem>
+                          {unitOptions.map(option => (
+                            <MenuItem key={option} value={option}>
+                              {option}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </InputAdornment>
+                    ),
+                  },
+                } : undefined}
+              />
+            );
+          }
+          case 'textarea':
+            return (
+              <TextField
+                key={name}
+                label={field.label}
+                value={value}
+                onChange={(e) => onChange(name, e.target.value)}
+                fullWidth
+                multiline
+                rows={3}
+                required={required}
+                variant="outlined"
+                sx={{ gridColumn: '1 / -1' }}
+              />
+            );
+          default:
+            return (
+              <TextField
+                key={name}
+                label={field.label}
+                value={value}
+                onChange={(e) => onChange(name, e.target.value)}
+                fullWidth
+                required={required}
+                variant="outlined"
+              />
+            );
+        }
+      })}
+    </Box>
+  );
+};
+
+export default ProductFormFields;
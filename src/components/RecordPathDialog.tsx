@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+} from '@mui/material';
+import { flattenRecords, getRecordsAtPath, type RecordPathCandidate } from '../lib/feedParser';
+
+interface RecordPathDialogProps {
+  open: boolean;
+  fileName: string;
+  feedDocument: unknown;
+  candidates: RecordPathCandidate[];
+  onClose: () => void;
+  onConfirm: (path: string) => void;
+}
+
+const PREVIEW_ROW_COUNT = 5;
+
+const formatPath = (path: string) => path || '(top level)';
+
+const RecordPathDialog: React.FC<RecordPathDialogProps> = ({
+  open,
+  fileName,
+  feedDocument,
+  candidates,
+  onClose,
+  onConfirm,
+}) => {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedPath(candidates[0]?.path ?? null);
+    }
+  }, [open, candidates]);
+
+  const preview = useMemo(
+    () => (selectedPath === null
+      ? null
+      : flattenRecords(getRecordsAtPath(feedDocument, selectedPath).slice(0, PREVIEW_ROW_COUNT))),
+    [feedDocument, selectedPath]
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Choose Records to Import</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            {fileName}
+          </Typography>
+
+          <FormControl fullWidth size="small">
+            <InputLabel>Record path</InputLabel>
+            <Select
+              value={selectedPath ?? ''}
+              label="Record path"
+              onChange={(e) => setSelectedPath(e.target.value)}
+            >
+              {candidates.map(candidate => (
+                <MenuItem key={candidate.path} value={candidate.path}>
+                  {formatPath(candidate.path)} · {candidate.count} {candidate.count === 1 ? 'record' : 'records'}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {preview && preview.headers.length > 0 && (
+            <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 320 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    {preview.headers.map(header => (
+                      <TableCell key={header} sx={{ fontWeight: 600, whiteSpace: 'nowrap' }}>
+                        {header}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {preview.rows.map((row, rowIndex) => (
+                    <TableRow key={rowIndex}>
+                      {row.map((cell, cellIndex) => (
+                        <TableCell key={cellIndex} sx={{ whiteSpace: 'nowrap' }}>
+                          {cell}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          <Typography variant="caption" color="text.secondary">
+            Nested values are flattened into dotted column names, e.g. dimensions.weight.
+          </Typography>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={() => selectedPath !== null && onConfirm(selectedPath)}
+          variant="contained"
+          disabled={selectedPath === null}
+        >
+          Import Records
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RecordPathDialog;
@@ -0,0 +1,122 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import HeaderRowPreview from './HeaderRowPreview';
+
+interface SheetPickerDialogProps {
+  open: boolean;
+  fileName: string;
+  sheetNames: string[];
+  getSheetRows: (sheetName: string) => string[][];
+  onClose: () => void;
+  onConfirm: (sheetName: string, headerRowIndex: number) => void;
+}
+
+const SheetPickerDialog: React.FC<SheetPickerDialogProps> = ({
+  open,
+  fileName,
+  sheetNames,
+  getSheetRows,
+  onClose,
+  onConfirm,
+}) => {
+  const [selectedSheet, setSelectedSheet] = useState('');
+  const [headerRowIndex, setHeaderRowIndex] = useState(0);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedSheet(sheetNames[0] || '');
+      setHeaderRowIndex(0);
+    }
+  }, [open, sheetNames]);
+
+  const sheetRows = useMemo(
+    () => (selectedSheet ? getSheetRows(selectedSheet) : []),
+    [selectedSheet, getSheetRows]
+  );
+
+  const hasDataRows = sheetRows.length > headerRowIndex + 1;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import Excel Workbook</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            {fileName}
+          </Typography>
+
+          <Stack direction="row" spacing={2}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Sheet</InputLabel>
+              <Select
+                value={selectedSheet}
+                label="Sheet"
+                onChange={(e) => {
+                  setSelectedSheet(e.target.value);
+                  setHeaderRowIndex(0);
+                }}
+              >
+                {sheetNames.map(name => (
+                  <MenuItem key={name} value={name}>
+                    {name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <TextField
+              label="Header row"
+              type="number"
+              size="small"
+              value={headerRowIndex + 1}
+              onChange={(e) => {
+                const row = parseInt(e.target.value, 10);
+                if (!Number.isNaN(row) && row >= 1 && row <= sheetRows.length) {
+                  setHeaderRowIndex(row - 1);
+                }
+              }}
+              inputProps={{ min: 1, max: Math.max(sheetRows.length, 1) }}
+              sx={{ minWidth: 140 }}
+            />
+          </Stack>
+
+          <HeaderRowPreview
+            rows={sheetRows}
+            headerRowIndex={headerRowIndex}
+            onHeaderRowChange={setHeaderRowIndex}
+            emptyMessage="This sheet is empty."
+          />
+
+          <Typography variant="caption" color="text.secondary">
+            Click a row to use it as the header. Rows above the header are ignored.
+          </Typography>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={() => onConfirm(selectedSheet, headerRowIndex)}
+          variant="contained"
+          disabled={!selectedSheet || !hasDataRows}
+        >
+          Import Sheet
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SheetPickerDialog;
@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Stack,
+  Box,
+  Typography,
+  TextField,
+  Checkbox,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+} from '@mui/material';
+import {
+  SPLIT_MODE_LABELS,
+  countSplitParts,
+  splitValue,
+  validateSplitRule,
+  type SplitMode,
+  type SplitOutput,
+  type SplitRule,
+} from '../lib/splitColumn';
+
+interface SplitColumnDialogProps {
+  open: boolean;
+  columnName: string;
+  sampleValues: unknown[];
+  // The column's current split, if any
+  rule: SplitRule | null;
+  outputs: SplitOutput[];
+  // Names of every other column and output; output names must not clash with them
+  reservedNames: string[];
+  onClose: () => void;
+  onSave: (rule: SplitRule, outputs: SplitOutput[]) => void;
+  onRemove: () => void;
+}
+
+interface PartDraft {
+  name: string;
+  included: boolean;
+}
+
+const DEFAULT_RULE: SplitRule = { mode: 'delimiter', pattern: '|' };
+
+const SplitColumnDialog: React.FC<SplitColumnDialogProps> = ({
+  open,
+  columnName,
+  sampleValues,
+  rule,
+  outputs,
+  reservedNames,
+  onClose,
+  onSave,
+  onRemove,
+}) => {
+  const [draftRule, setDraftRule] = useState<SplitRule>(DEFAULT_RULE);
+  const [parts, setParts] = useState<PartDraft[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setDraftRule(rule ?? DEFAULT_RULE);
+      setParts(outputs.reduce<PartDraft[]>((drafts, output) => {
+        drafts[output.part] = { name: output.name, included: true };
+        return drafts;
+      }, []));
+    }
+  }, [open, rule, outputs]);
+
+  const ruleError = validateSplitRule(draftRule);
+  const partCount = countSplitParts(sampleValues, draftRule);
+  const splitSamples = useMemo(
+    () => sampleValues.map(value => splitValue(value, draftRule)),
+    [sampleValues, draftRule]
+  );
+
+  // Parts the user hasn't named default to "<column> 1", "<column> 2", ...; when
+  // editing an existing split, parts that weren't kept stay unselected
+  const partDrafts = Array.from({ length: partCount }, (_, index) =>
+    parts[index] ?? { name: `${columnName} ${index + 1}`, included: outputs.length === 0 }
+  );
+
+  const updatePart = (index: number, changes: Partial<PartDraft>) => {
+    const next = [...partDrafts];
+    next[index] = { ...next[index], ...changes };
+    setParts(next);
+  };
+
+  // Names are compared case-insensitively, like column renames
+  const includedNames = partDrafts.filter(part => part.included).map(part => part.name.trim().toLowerCase());
+  const nameError = (name: string): string | null => {
+    const key = name.trim().toLowerCase();
+    if (key === '') return 'Required';
+    if (reservedNames.some(reserved => reserved.toLowerCase() === key)) return 'Already used';
+    if (includedNames.filter(other => other === key).length > 1) return 'Duplicate';
+    return null;
+  };
+  const hasErrors = Boolean(ruleError)
+    || includedNames.length === 0
+    || partDrafts.some(part => part.included && nameError(part.name));
+
+  const handleSave = () => {
+    onSave(
+      draftRule,
+      partDrafts.flatMap((part, index) => (part.included ? [{ part: index, name: part.name.trim() }] : []))
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Split "{columnName}"</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Each part becomes its own output that can be mapped to a field or stored under its name in metaData.
+          </Typography>
+
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={draftRule.mode}
+              onChange={(_, mode: SplitMode | null) => mode && setDraftRule({ mode, pattern: mode === 'delimiter' ? '|' : '(.*) - (.*)' })}
+            >
+              {(Object.keys(SPLIT_MODE_LABELS) as SplitMode[]).map(mode => (
+                <ToggleButton key={mode} value={mode}>{SPLIT_MODE_LABELS[mode]}</ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <TextField
+              size="small"
+              label={draftRule.mode === 'delimiter' ? 'Delimiter' : 'Pattern'}
+              value={draftRule.pattern}
+              onChange={(e) => setDraftRule({ ...draftRule, pattern: e.target.value })}
+              error={Boolean(ruleError)}
+              helperText={ruleError || (draftRule.mode === 'regex' ? 'Each capture group becomes a part' : 'Parts are trimmed')}
+              sx={{ flex: 1 }}
+              inputProps={{ style: { fontFamily: 'monospace' } }}
+            />
+          </Box>
+
+          {partCount > 0 && (
+            <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 360 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 600 }}>{columnName}</TableCell>
+                    {partDrafts.map((part, index) => {
+                      const error = part.included ? nameError(part.name) : null;
+                      return (
+                        <TableCell key={index} sx={{ minWidth: 160 }}>
+                          <Box sx={{ display: 'flex', alignItems: 'flex-start' }}>
+                            <Checkbox
+                              size="small"
+                              checked={part.included}
+                              onChange={(e) => updatePart(index, { included: e.target.checked })}
+                            />
+                            <TextField
+                              size="small"
+                              variant="standard"
+                              value={part.name}
+                              disabled={!part.included}
+                              onChange={(e) => updatePart(index, { name: e.target.value })}
+                              error={Boolean(error)}
+                              helperText={error}
+                            />
+                          </Box>
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {sampleValues.map((value, rowIndex) => (
+                    <TableRow key={rowIndex}>
+                      <TableCell sx={{ fontFamily: 'monospace', whiteSpace: 'nowrap' }}>{String(value ?? '')}</TableCell>
+                      {partDrafts.map((part, index) => (
+                        <TableCell
+                          key={index}
+                          sx={{ fontFamily: 'monospace', color: part.included ? 'success.main' : 'text.disabled' }}
+                        >
+                          {splitSamples[rowIndex][index] ?? ''}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        {rule && (
+          <Button color="error" onClick={onRemove} sx={{ mr: 'auto' }}>
+            Remove split
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" disabled={hasErrors}>
+          Apply
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SplitColumnDialog;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Box, Button, Typography } from '@mui/material';
+import { ArrowBack as ArrowBackIcon, ArrowForward as ArrowForwardIcon } from '@mui/icons-material';
+
+interface StepNavigationProps {
+  onBack?: () => void;
+  onNext?: () => void;
+  nextLabel?: string;
+  // Why the current step can't be left yet; disables Next
+  blocker?: string | null;
+  disabled?: boolean;
+}
+
+const StepNavigation: React.FC<StepNavigationProps> = ({
+  onBack,
+  onNext,
+  nextLabel = 'Next',
+  blocker,
+  disabled = false,
+}) => (
+  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+    {onBack && (
+      <Button variant="outlined" startIcon={<ArrowBackIcon />} onClick={onBack} disabled={disabled}>
+        Back
+      </Button>
+    )}
+    <Box sx={{ flex: 1 }} />
+    {onNext && blocker && (
+      <Typography variant="body2" color="text.secondary">
+        {blocker}
+      </Typography>
+    )}
+    {onNext && (
+      <Button
+        variant="contained"
+        endIcon={<ArrowForwardIcon />}
+        onClick={onNext}
+        disabled={disabled || Boolean(blocker)}
+      >
+        {nextLabel}
+      </Button>
+    )}
+  </Box>
+);
+
+export default StepNavigation;
@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Stack,
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  FormControlLabel,
+  Checkbox,
+  IconButton,
+  Menu,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  ArrowUpward as ArrowUpwardIcon,
+  ArrowDownward as ArrowDownwardIcon,
+} from '@mui/icons-material';
+import {
+  TRANSFORM_LABELS,
+  applyTransforms,
+  createTransformStep,
+  validateTransformStep,
+  type TransformStep,
+  type TransformType,
+} from '../lib/transforms';
+
+interface TransformEditorDialogProps {
+  open: boolean;
+  columnName: string;
+  steps: TransformStep[];
+  sampleValues: unknown[];
+  onClose: () => void;
+  onSave: (steps: TransformStep[]) => void;
+}
+
+const StepSettings: React.FC<{ step: TransformStep; onChange: (step: TransformStep) => void }> = ({ step, onChange }) => {
+  switch (step.type) {
+    case 'trim':
+      return null;
+    case 'case':
+      return (
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Case</InputLabel>
+          <Select value={step.mode} label="Case" onChange={(e) => onChange({ ...step, mode: e.target.value as typeof step.mode })}>
+            <MenuItem value="upper">UPPER CASE</MenuItem>
+            <MenuItem value="lower">lower case</MenuItem>
+            <MenuItem value="title">Title Case</MenuItem>
+          </Select>
+        </FormControl>
+      );
+    case 'replace': {
+      const error = validateTransformStep(step);
+      return (
+        <>
+          <TextField
+            size="small"
+            label="Pattern"
+            value={step.pattern}
+            error={Boolean(error)}
+            helperText={error}
+            onChange={(e) => onChange({ ...step, pattern: e.target.value })}
+            inputProps={{ style: { fontFamily: 'monospace' } }}
+          />
+          <TextField
+            size="small"
+            label="Replace with"
+            value={step.replacement}
+            onChange={(e) => onChange({ ...step, replacement: e.target.value })}
+          />
+          <FormControlLabel
+            control={<Checkbox size="small" checked={step.ignoreCase} onChange={(e) => onChange({ ...step, ignoreCase: e.target.checked })} />}
+            label="Ignore case"
+          />
+        </>
+      );
+    }
+    case 'affix':
+      return (
+        <>
+          <TextField size="small" label="Prefix" value={step.prefix} onChange={(e) => onChange({ ...step, prefix: e.target.value })} />
+          <TextField size="small" label="Suffix" value={step.suffix} onChange={(e) => onChange({ ...step, suffix: e.target.value })} />
+        </>
+      );
+    case 'number':
+      return (
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>Decimal separator</InputLabel>
+          <Select
+            value={step.decimalSeparator}
+            label="Decimal separator"
+            onChange={(e) => onChange({ ...step, decimalSeparator: e.target.value as typeof step.decimalSeparator })}
+          >
+            <MenuItem value=".">Dot (1,234.56)</MenuItem>
+            <MenuItem value=",">Comma (1.234,56)</MenuItem>
+          </Select>
+        </FormControl>
+      );
+    case 'defaultValue':
+      return (
+        <TextField size="small" label="Default value" value={step.value} onChange={(e) => onChange({ ...step, value: e.target.value })} />
+      );
+    case 'date':
+      return (
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>Source format</InputLabel>
+          <Select value={step.order} label="Source format" onChange={(e) => onChange({ ...step, order: e.target.value as typeof step.order })}>
+            <MenuItem value="DMY">Day / Month / Year</MenuItem>
+            <MenuItem value="MDY">Month / Day / Year</MenuItem>
+            <MenuItem value="YMD">Year / Month / Day</MenuItem>
+          </Select>
+        </FormControl>
+      );
+  }
+};
+
+const TransformEditorDialog: React.FC<TransformEditorDialogProps> = ({
+  open,
+  columnName,
+  steps,
+  sampleValues,
+  onClose,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<TransformStep[]>([]);
+  const [addMenuAnchor, setAddMenuAnchor] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(steps);
+    }
+  }, [open, steps]);
+
+  const updateStep = (index: number, step: TransformStep) => {
+    setDraft(current => current.map((existing, i) => (i === index ? step : existing)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    setDraft(current => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const hasErrors = draft.some(step => validateTransformStep(step));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Transform "{columnName}"</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Steps run top to bottom on every value in this column before it is validated and uploaded.
+          </Typography>
+
+          {draft.length === 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic' }}>
+              No transformations; values are copied as-is.
+            </Typography>
+          )}
+
+          {draft.map((step, index) => (
+            <Paper key={index} variant="outlined" sx={{ p: 1.5 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, flexWrap: 'wrap' }}>
+                <Typography variant="body2" sx={{ fontWeight: 600, minWidth: 150 }}>
+                  {index + 1}. {TRANSFORM_LABELS[step.type]}
+                </Typography>
+                <StepSettings step={step} onChange={(updated) => updateStep(index, updated)} />
+                <Box sx={{ flex: 1 }} />
+                <IconButton size="small" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                  <ArrowUpwardIcon fontSize="small" />
+                </IconButton>
+                <IconButton size="small" disabled={index === draft.length - 1} onClick={() => moveStep(index, 1)}>
+                  <ArrowDownwardIcon fontSize="small" />
+                </IconButton>
+                <IconButton size="small" color="error" onClick={() => setDraft(current => current.filter((_, i) => i !== index))}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            </Paper>
+          ))}
+
+          <Box>
+            <Button startIcon={<AddIcon />} onClick={(e) => setAddMenuAnchor(e.currentTarget)}>
+              Add step
+            </Button>
+            <Menu anchorEl={addMenuAnchor} open={Boolean(addMenuAnchor)} onClose={() => setAddMenuAnchor(null)}>
+              {(Object.keys(TRANSFORM_LABELS) as TransformType[]).map(type => (
+                <MenuItem
+                  key={type}
+                  onClick={() => {
+                    setDraft(current => [...current, createTransformStep(type)]);
+                    setAddMenuAnchor(null);
+                  }}
+                >
+                  {TRANSFORM_LABELS[type]}
+                </MenuItem>
+              ))}
+            </Menu>
+          </Box>
+
+          {sampleValues.length > 0 && (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 600 }}>Original</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Transformed</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {sampleValues.map((value, index) => (
+                  <TableRow key={index}>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>{String(value ?? '')}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', color: 'success.main' }}>
+                      {applyTransforms(value, draft)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={() => onSave(draft)} variant="contained" disabled={hasErrors}>
+          Apply
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TransformEditorDialog;
@@ -0,0 +1,172 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  LinearProgress,
+  Stack,
+  Chip,
+  Button,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TableContainer,
+} from '@mui/material';
+import {
+  Pause as PauseIcon,
+  PlayArrow as PlayArrowIcon,
+  Stop as StopIcon,
+  Replay as ReplayIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
+import Papa from 'papaparse';
+import { type UploadFailure, type UploadProgress, type UploadStatus } from '../lib/chunkedUpload';
+
+interface UploadProgressSectionProps {
+  status: UploadStatus;
+  progress: UploadProgress;
+  failures: UploadFailure[];
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  // Keeps only the failed rows in the grid so they can be fixed and re-sent
+  onReviewFailedRows: () => void;
+  onDismiss: () => void;
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  idle: 'Not started',
+  running: 'Uploading…',
+  paused: 'Paused',
+  cancelled: 'Cancelled',
+  completed: 'Completed',
+};
+
+const MAX_LISTED_FAILURES = 200;
+
+const downloadFailureReport = (failures: UploadFailure[]) => {
+  const csv = Papa.unparse(failures.map(failure => ({ row: failure.rowIndex + 1, error: failure.error })));
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'upload-failures.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const UploadProgressSection: React.FC<UploadProgressSectionProps> = ({
+  status,
+  progress,
+  failures,
+  onPause,
+  onResume,
+  onCancel,
+  onReviewFailedRows,
+  onDismiss,
+}) => {
+  if (status === 'idle') return null;
+
+  const isActive = status === 'running' || status === 'paused';
+  const percent = progress.total > 0 ? (progress.sent / progress.total) * 100 : 0;
+  const sortedFailures = [...failures].sort((a, b) => a.rowIndex - b.rowIndex);
+
+  return (
+    <Paper elevation={2} sx={{ p: 4, mb: 3, borderRadius: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, flexWrap: 'wrap', gap: 2 }}>
+        <Typography variant="h6">Upload Progress · {STATUS_LABELS[status]}</Typography>
+        <Stack direction="row" spacing={1}>
+          {status === 'running' && (
+            <Button size="small" startIcon={<PauseIcon />} onClick={onPause}>
+              Pause
+            </Button>
+          )}
+          {status === 'paused' && (
+            <Button size="small" startIcon={<PlayArrowIcon />} onClick={onResume}>
+              Resume
+            </Button>
+          )}
+          {isActive ? (
+            <Button size="small" color="error" startIcon={<StopIcon />} onClick={onCancel}>
+              Cancel
+            </Button>
+          ) : (
+            <Button size="small" onClick={onDismiss}>
+              Dismiss
+            </Button>
+          )}
+        </Stack>
+      </Box>
+
+      <LinearProgress
+        variant="determinate"
+        value={percent}
+        color={progress.failed > 0 ? 'warning' : 'primary'}
+        sx={{ height: 8, borderRadius: 4, mb: 2 }}
+      />
+
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+        <Chip label={`${progress.sent} of ${progress.total} rows sent`} variant="outlined" />
+        <Chip label={`${progress.succeeded} succeeded`} color="success" />
+        <Chip label={`${progress.failed} failed`} color={progress.failed > 0 ? 'error' : 'default'} />
+      </Box>
+
+      {status === 'paused' && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Uploading pauses once the batch in progress has finished.
+        </Alert>
+      )}
+
+      {status === 'cancelled' && progress.sent < progress.total && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {progress.total - progress.sent} rows were not sent.
+        </Alert>
+      )}
+
+      {!isActive && sortedFailures.length > 0 && (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1, flexWrap: 'wrap', gap: 1 }}>
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+              Failed rows
+            </Typography>
+            <Stack direction="row" spacing={1}>
+              <Button size="small" startIcon={<DownloadIcon />} onClick={() => downloadFailureReport(sortedFailures)}>
+                Download report
+              </Button>
+              <Button size="small" variant="contained" startIcon={<ReplayIcon />} onClick={onReviewFailedRows}>
+                Fix & re-send failed rows
+              </Button>
+            </Stack>
+          </Box>
+          <TableContainer sx={{ maxHeight: 320 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 600, width: 100 }}>Row</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Error</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {sortedFailures.slice(0, MAX_LISTED_FAILURES).map(failure => (
+                  <TableRow key={failure.rowIndex}>
+                    <TableCell>{failure.rowIndex + 1}</TableCell>
+                    <TableCell sx={{ color: 'error.main' }}>{failure.error}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          {sortedFailures.length > MAX_LISTED_FAILURES && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              …and {sortedFailures.length - MAX_LISTED_FAILURES} more. Download the report for the full list.
+            </Typography>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default UploadProgressSection;
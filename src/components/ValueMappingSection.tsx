@@ -0,0 +1,186 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Stack,
+  Chip,
+  Button,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { AutoAwesome as AutoAwesomeIcon, ArrowForward as ArrowForwardIcon } from '@mui/icons-material';
+import { type CSVData, type ColumnMapping } from '../types/import';
+import { type FieldDefinitions } from '../schemas/fieldDefinition';
+import { applyTransforms, getSourceValue } from '../lib/transforms';
+import {
+  getDistinctValues,
+  getUnmappedValues,
+  isEnumeratedField,
+  resolveOptionValue,
+  suggestOption,
+  type ValueMap,
+} from '../lib/valueMaps';
+import { isFieldMapping } from '../lib/metaData';
+
+interface ValueMappingSectionProps {
+  csvData: CSVData[];
+  columnMappings: ColumnMapping[];
+  fields: FieldDefinitions;
+  onValueMapChange: (columnId: string, valueMap: ValueMap) => void;
+}
+
+const MAX_LISTED_VALUES = 200;
+
+const ValueMappingSection: React.FC<ValueMappingSectionProps> = ({
+  csvData,
+  columnMappings,
+  fields,
+  onValueMapChange,
+}) => {
+  const enumeratedColumns = useMemo(
+    () => columnMappings
+      .filter(mapping => isFieldMapping(mapping) && mapping.isValid && isEnumeratedField(fields[mapping.mappedName]))
+      .map(mapping => {
+        const options = fields[mapping.mappedName].options;
+        const values = getDistinctValues(csvData.map(row => applyTransforms(getSourceValue(row, mapping), mapping.transforms)));
+        return {
+          mapping,
+          options,
+          values,
+          suggestions: new Map(values.map(({ value }) => [value, suggestOption(value, options)])),
+        };
+      }),
+    [csvData, columnMappings, fields]
+  );
+
+  if (enumeratedColumns.length === 0) return null;
+
+  return (
+    <Paper elevation={2} sx={{ p: 4, mb: 3, backgroundColor: '#fafafa', borderRadius: 2 }}>
+      <Typography variant="h5" sx={{ fontWeight: 600, color: '#1976d2', mb: 1 }}>
+        Map Field Values
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Match the file's labels to the allowed values. Value maps are saved with the mapping profile.
+      </Typography>
+
+      <Stack spacing={3}>
+        {enumeratedColumns.map(({ mapping, options, values, suggestions }) => {
+          const definition = fields[mapping.mappedName];
+          const valueMap = mapping.valueMap || {};
+          const unmapped = getUnmappedValues(values, definition, valueMap);
+          const suggestedCount = unmapped.filter(({ value }) => suggestions.get(value)).length;
+
+          const setTarget = (value: string, target: string) => {
+            const next = { ...valueMap };
+            if (target === '' || target === resolveOptionValue(definition, value)) {
+              delete next[value];
+            } else {
+              next[value] = target;
+            }
+            onValueMapChange(mapping.columnId, next);
+          };
+
+          const acceptSuggestions = () => {
+            const next = { ...valueMap };
+            unmapped.forEach(({ value }) => {
+              const suggestion = suggestions.get(value);
+              if (suggestion) next[value] = suggestion.option;
+            });
+            onValueMapChange(mapping.columnId, next);
+          };
+
+          return (
+            <Box key={mapping.columnId}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5, flexWrap: 'wrap' }}>
+                <Chip label={mapping.originalName} color="primary" sx={{ fontWeight: 600 }} />
+                <ArrowForwardIcon color="action" fontSize="small" />
+                <Typography sx={{ fontWeight: 500 }}>{fields[mapping.mappedName].label}</Typography>
+                <Chip
+                  size="small"
+                  color={unmapped.length > 0 ? 'warning' : 'success'}
+                  label={unmapped.length > 0 ? `${unmapped.length} unmapped values` : 'All values mapped'}
+                />
+                <Box sx={{ flex: 1 }} />
+                <Button
+                  size="small"
+                  startIcon={<AutoAwesomeIcon />}
+                  disabled={suggestedCount === 0}
+                  onClick={acceptSuggestions}
+                >
+                  Accept {suggestedCount} suggestions
+                </Button>
+              </Box>
+
+              <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 360 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ fontWeight: 600 }}>Source value</TableCell>
+                      <TableCell sx={{ fontWeight: 600, width: 80 }} align="right">Rows</TableCell>
+                      <TableCell sx={{ fontWeight: 600, minWidth: 240 }}>Maps to</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>Suggestion</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {values.slice(0, MAX_LISTED_VALUES).map(({ value, count }) => {
+                      const target = valueMap[value] || resolveOptionValue(definition, value) || '';
+                      const suggestion = suggestions.get(value);
+                      return (
+                        <TableRow key={value} sx={{ backgroundColor: target ? undefined : '#fff8e1' }}>
+                          <TableCell sx={{ fontFamily: 'monospace' }}>{value}</TableCell>
+                          <TableCell align="right">{count}</TableCell>
+                          <TableCell>
+                            <Select
+                              size="small"
+                              fullWidth
+                              displayEmpty
+                              value={target}
+                              onChange={(e) => setTarget(value, e.target.value)}
+                            >
+                              <MenuItem value="">
+                                <Typography color="text.secondary" sx={{ fontStyle: 'italic' }}>Not mapped</Typography>
+                              </MenuItem>
+                              {options.map(option => (
+                                <MenuItem key={option} value={option}>{option}</MenuItem>
+                              ))}
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            {suggestion && suggestion.option !== target && (
+                              <Chip
+                                size="small"
+                                variant="outlined"
+                                icon={<AutoAwesomeIcon />}
+                                label={`${suggestion.option} · ${Math.round(suggestion.confidence * 100)}%`}
+                                onClick={() => setTarget(value, suggestion.option)}
+                              />
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              {values.length > MAX_LISTED_VALUES && (
+                <Typography variant="caption" color="text.secondary">
+                  Showing the {MAX_LISTED_VALUES} most frequent of {values.length} values.
+                </Typography>
+              )}
+            </Box>
+          );
+        })}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default ValueMappingSection;
@@ -1,32 +1,102 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import Papa from 'papaparse';
-import { Box, Typography, Button, Fab } from '@mui/material';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { Box, Typography, Button, Fab, Alert, Paper } from '@mui/material';
 import { 
   Upload as UploadIcon, 
   Add as AddIcon,
   ArrowBack as ArrowBackIcon 
 } from '@mui/icons-material';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
 import { type MRT_Row } from 'material-react-table';
+import { type WorkBook } from 'xlsx';
 
 import FileUploadSection from '../components/FileUploadSection';
 import ColumnMappingSection from '../components/ColumnMappingSection';
+import PayloadPreviewPanel from '../components/PayloadPreviewPanel';
 import DataGridSection from '../components/DataGridSection';
 import EditRowDialog from '../components/EditRowDialog';
 import ProductDataGrid from '../components/ProductDataGrid';
 import AddProductDialog from '../components/AddProductDialog';
+import SheetPickerDialog from '../components/SheetPickerDialog';
+import CsvSettingsDialog from '../components/CsvSettingsDialog';
+import RecordPathDialog from '../components/RecordPathDialog';
+import PasteDataDialog from '../components/PasteDataDialog';
+import EntityTypeSection from '../components/EntityTypeSection';
+import ImportPlanSection from '../components/ImportPlanSection';
+import ImportSettingsSection from '../components/ImportSettingsSection';
+import DiffReviewSection from '../components/DiffReviewSection';
+import UploadProgressSection from '../components/UploadProgressSection';
+import ValueMappingSection from '../components/ValueMappingSection';
+import ImportStepper from '../components/ImportStepper';
+import StepNavigation from '../components/StepNavigation';
+import ParseSummarySection from '../components/ParseSummarySection';
 import { useCustomToast } from '../hooks/useCustomToast';
-
-interface CSVData {
-  [key: string]: any;
-}
-
-interface ColumnMapping {
-  originalName: string;
-  mappedName: string;
-  isValid: boolean;
-  isMetadata: boolean;
-  errorMessage?: string;
-}
+import { useMappingProfiles } from '../hooks/useMappingProfiles';
+import { useCsvParser } from '../hooks/useCsvParser';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import {
+  useProductsQuery,
+  useCreateProduct,
+  useUpdateProduct,
+  useDeleteProduct,
+} from '../hooks/useProducts';
+import { useChunkedEntityImport, useEntityRecordsQuery } from '../hooks/useEntityImport';
+import { productApi, type EntityRecord } from '../services';
+import { isExcelFile, readWorkbook, sheetToRows } from '../lib/excelParser';
+import { detectCsvOptions, type CsvDetection, type CsvParseOptions } from '../lib/csvDetection';
+import {
+  findRecordPaths,
+  flattenRecords,
+  getFeedFormat,
+  getRecordsAtPath,
+  parseFeedDocument,
+  type RecordPathCandidate,
+} from '../lib/feedParser';
+import { suggestColumnMappings } from '../lib/autoMapper';
+import { validateRows, hasRowErrors, type RowErrors } from '../lib/rowValidation';
+import {
+  compareHeaders,
+  findMatchingProfile,
+  isProfileForEntity,
+  type MappingProfile,
+  type ProfileMatch,
+} from '../lib/mappingProfiles';
+import { type CSVData, type ColumnMapping, type ComputedField, type SourceColumn } from '../types/import';
+import { buildSourceColumns, rowToRecord, validateColumnName } from '../lib/columnHeaders';
+import { transformRows } from '../lib/rowTransform';
+import { type TransformStep } from '../lib/transforms';
+import { renameTemplateColumn, validateComputedFields } from '../lib/computedFields';
+import { type ValueMap } from '../lib/valueMaps';
+import { splitColumnId, type SplitOutput, type SplitRule } from '../lib/splitColumn';
+import {
+  IGNORE_MAPPING,
+  getMetaDataKey,
+  isFieldMapping,
+  validateMetaDataKey,
+  type MetaDataType,
+} from '../lib/metaData';
+import { applyMappingFile, createMappingFile, findMissingColumns, parseMappingFile } from '../lib/mappingFile';
+import { buildImportPlan, type ImportMode, type ImportPlan } from '../lib/importPlan';
+import {
+  IMPORT_STEPS,
+  findImportStep,
+  getReachableStepIndex,
+  importStepPath,
+  type ImportStepId,
+  type StepBlockers,
+} from '../lib/importWizard';
+import { applyChanges, diffRecords, getAcceptedChanges } from '../lib/recordDiff';
+import { DEFAULT_BATCH_SIZE, type UploadItem } from '../lib/chunkedUpload';
+import { retainIssueRows, type ParseIssue } from '../lib/parseIssues';
+import { type ProductTypeDto } from '../schemas/productType';
+import {
+  entitySchemas,
+  getEntitySchema,
+  getFieldNames,
+  getOptionalFields,
+  getRequiredFields,
+  DEFAULT_ENTITY_ID,
+  type EntitySchema,
+} from '../schemas';
 
 interface EditDialogData {
   open: boolean;
@@ -34,27 +104,208 @@ interface EditDialogData {
   rowIndex: number | null;
 }
 
-interface ProductTypeDto {
-  id?: string;
-  companyID: string;
-  productTypeID: string;
-  companyName: string;
-  productName: string;
-  productDescription: any;
-  productImage: string;
-  globalProductCategory: string;
-  netContent: number;
-  metaData?: Record<string, any>;
+interface PendingWorkbook {
+  fileName: string;
+  workbook: WorkBook;
 }
 
-type ViewMode = 'productGrid' | 'csvImport';
+interface PendingCsv {
+  file: File;
+  detection: CsvDetection;
+}
+
+interface PendingFeed {
+  fileName: string;
+  feedDocument: unknown;
+  candidates: RecordPathCandidate[];
+}
+
+// The input behind the loaded rows, kept so it can be read again with other settings
+type LoadedSource =
+  | { kind: 'csv'; csv: PendingCsv }
+  | { kind: 'workbook'; workbook: PendingWorkbook }
+  | { kind: 'feed'; feed: PendingFeed }
+  | { kind: 'paste' };
+
+const describeSource = (source: LoadedSource | null): string => {
+  switch (source?.kind) {
+    case 'csv':
+      return source.csv.file.name;
+    case 'workbook':
+      return source.workbook.fileName;
+    case 'feed':
+      return source.feed.fileName;
+    default:
+      return 'Pasted data';
+  }
+};
+
+interface ImportResult {
+  severity: 'success' | 'warning' | 'error';
+  message: string;
+}
+
+interface InitialMappings {
+  mappings: ColumnMapping[];
+  profileMatch: ProfileMatch | null;
+  autoMappedCount: number;
+}
+
+const validateAllColumnMappings = (
+  mappings: ColumnMapping[],
+  entity: EntitySchema,
+  computedFields: ComputedField[] = []
+): ColumnMapping[] => {
+  const fieldNames = getFieldNames(entity);
+  const updatedMappings = [...mappings];
+  const dtoFieldUsage = new Map<string, number>(); // Track how many times each DTO field is used
+  
+  // Count usage of each DTO field
+  mappings.forEach(mapping => {
+    if (!mapping.isMetadata && mapping.mappedName && mapping.mappedName !== '' && mapping.mappedName !== 'metaData' && mapping.mappedName !== IGNORE_MAPPING) {
+      const currentCount = dtoFieldUsage.get(mapping.mappedName) || 0;
+      dtoFieldUsage.set(mapping.mappedName, currentCount + 1);
+    }
+  });
+  computedFields.forEach(computed => {
+    dtoFieldUsage.set(computed.field, (dtoFieldUsage.get(computed.field) || 0) + 1);
+  });
+  const metaDataMappings = mappings.filter(mapping => mapping.mappedName === 'metaData');
+
+  // Validate each mapping
+  updatedMappings.forEach((mapping, index) => {
+    if (!mapping.mappedName || mapping.mappedName.trim() === '') {
+      updatedMappings[index] = {
+        ...mapping,
+        isValid: false,
+        errorMessage: 'Please select a mapping for this column',
+      };
+    } else if (mapping.mappedName === 'metaData') {
+      const keyError = validateMetaDataKey(
+        getMetaDataKey(mapping),
+        metaDataMappings.filter(other => other !== mapping).map(getMetaDataKey)
+      );
+      updatedMappings[index] = {
+        ...mapping,
+        isValid: !keyError,
+        isMetadata: true,
+        errorMessage: keyError ?? undefined,
+      };
+    } else if (mapping.mappedName === IGNORE_MAPPING) {
+      updatedMappings[index] = {
+        ...mapping,
+        isValid: true,
+        isMetadata: false,
+        errorMessage: undefined,
+      };
+    } else if (fieldNames.includes(mapping.mappedName)) {
+      const usageCount = dtoFieldUsage.get(mapping.mappedName) || 0;
+      if (usageCount > 1) {
+        updatedMappings[index] = {
+          ...mapping,
+          isValid: false,
+          isMetadata: false,
+          errorMessage: `"${mapping.mappedName}" is already mapped to another column or computed field. Each DTO field can only be mapped once.`,
+        };
+      } else {
+        updatedMappings[index] = {
+          ...mapping,
+          isValid: true,
+          isMetadata: false,
+          errorMessage: undefined,
+        };
+      }
+    } else {
+      updatedMappings[index] = {
+        ...mapping,
+        isValid: false,
+        isMetadata: false,
+        errorMessage: `"${mapping.mappedName}" is not a valid ${entity.dtoName} field. Please select from the available fields or choose metaData.`,
+      };
+    }
+  });
+
+  return updatedMappings;
+};
+
+const columnNames = (columns: SourceColumn[]) => columns.map(column => column.name);
+
+// Columns added since the profile was saved default to metaData
+const buildProfileMappings = (
+  columns: SourceColumn[],
+  profile: MappingProfile,
+  entity: EntitySchema,
+  computedFields: ComputedField[] = []
+): ColumnMapping[] => {
+  const mappings = columns.map(column => {
+    const mappedName = profile.mappings[column.name] || 'metaData';
+    return {
+      columnId: column.id,
+      originalName: column.name,
+      mappedName,
+      isValid: true,
+      isMetadata: mappedName === 'metaData',
+      valueMap: profile.valueMaps?.[mappedName],
+    };
+  });
+  return validateAllColumnMappings(mappings, entity, computedFields);
+};
+
+// A stored profile for this layout takes precedence over auto-mapping
+const resolveInitialMappings = (
+  columns: SourceColumn[],
+  entity: EntitySchema,
+  profiles: MappingProfile[]
+): InitialMappings => {
+  const profileMatch = findMatchingProfile(profiles, columnNames(columns), entity.id);
+  if (profileMatch) {
+    return {
+      mappings: buildProfileMappings(columns, profileMatch.profile, entity),
+      profileMatch,
+      autoMappedCount: 0,
+    };
+  }
+
+  // Pre-select confident matches; everything else defaults to metaData for review
+  const suggestions = suggestColumnMappings(columnNames(columns), entity.fields);
+  const mappings: ColumnMapping[] = columns.map((column, index) => {
+    const suggestion = suggestions[index];
+    return {
+      columnId: column.id,
+      originalName: column.name,
+      mappedName: suggestion ? suggestion.field : 'metaData',
+      isValid: true,
+      isMetadata: !suggestion,
+      errorMessage: undefined,
+      confidence: suggestion?.confidence,
+    };
+  });
+
+  return {
+    mappings,
+    profileMatch: null,
+    autoMappedCount: suggestions.filter(Boolean).length,
+  };
+};
+
+const NO_EXISTING_RECORDS: CSVData[] = [];
+const NO_EXISTING_PRODUCTS: ProductTypeDto[] = [];
+const NO_ROW_ERRORS: RowErrors[] = [];
+const EMPTY_IMPORT_PLAN: ImportPlan = {
+  records: [],
+  counts: { create: 0, update: 0, unchanged: 0, skip: 0 },
+};
+// How long mapping edits must pause before every row is validated again
+const MAPPING_SETTLE_MS = 300;
+// Rows shown in the transformation preview
+const SAMPLE_ROW_COUNT = 5;
 
 const DataImportContainer: React.FC = () => {
-  const [viewMode, setViewMode] = useState<ViewMode>('productGrid');
-  const [productData, setProductData] = useState<ProductTypeDto[]>([]);
+  const [entityId, setEntityId] = useState(DEFAULT_ENTITY_ID);
   const [csvData, setCsvData] = useState<CSVData[]>([]);
-  const [originalColumns, setOriginalColumns] = useState<string[]>([]);
+  const [sourceColumns, setSourceColumns] = useState<SourceColumn[]>([]);
   const [columnMappings, setColumnMappings] = useState<ColumnMapping[]>([]);
+  const [computedFields, setComputedFields] = useState<ComputedField[]>([]);
   const [addProductDialogOpen, setAddProductDialogOpen] = useState(false);
   const [editDialog, setEditDialog] = useState<EditDialogData>({
     open: false,
@@ -62,206 +313,576 @@ const DataImportContainer: React.FC = () => {
     rowIndex: null,
   });
   const [editFormData, setEditFormData] = useState<CSVData>({});
+  const [pendingWorkbook, setPendingWorkbook] = useState<PendingWorkbook | null>(null);
+  const [pendingCsv, setPendingCsv] = useState<PendingCsv | null>(null);
+  const [pendingFeed, setPendingFeed] = useState<PendingFeed | null>(null);
+  const [pasteDialogOpen, setPasteDialogOpen] = useState(false);
+  const [appliedProfile, setAppliedProfile] = useState<ProfileMatch | null>(null);
+  const [excludeInvalidRows, setExcludeInvalidRows] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>('upsert');
+  const [rejectedChanges, setRejectedChanges] = useState<Record<string, string[]>>({});
+  const [keyFields, setKeyFields] = useState<string[]>(() => getEntitySchema(DEFAULT_ENTITY_ID).naturalKey);
+  const [batchSize, setBatchSize] = useState(DEFAULT_BATCH_SIZE);
+  const [parseIssues, setParseIssues] = useState<ParseIssue[]>([]);
+  const [loadedSource, setLoadedSource] = useState<LoadedSource | null>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+
+  const navigate = useNavigate();
+  // Set on /import/:step; the product grid is shown otherwise
+  const { step: stepParam } = useParams<{ step?: string }>();
+
+  const { showSuccess, showError, showWarning, ToastComponent } = useCustomToast();
+  const { profiles, saveProfile, renameProfile, deleteProfile } = useMappingProfiles();
+
+  const productsQuery = useProductsQuery();
+  const createProduct = useCreateProduct();
+  const updateProduct = useUpdateProduct();
+  const deleteProduct = useDeleteProduct();
+  const existingRecordsQuery = useEntityRecordsQuery(entityId);
+  const entityUpload = useChunkedEntityImport(entityId);
+  const { reset: resetUpload } = entityUpload;
+  const { parse: parseCsv, cancel: cancelCsvParse, progress: csvParseProgress, isParsing } = useCsvParser();
+  const productData = productsQuery.data ?? NO_EXISTING_PRODUCTS;
+
+  const entity = useMemo(() => getEntitySchema(entityId), [entityId]);
+  const entityProfiles = useMemo(
+    () => profiles.filter(profile => isProfileForEntity(profile, entityId)),
+    [profiles, entityId]
+  );
+
+  const sampleRows = useMemo(() => csvData.slice(0, SAMPLE_ROW_COUNT), [csvData]);
+  const computedFieldErrors = useMemo(
+    () => validateComputedFields(computedFields, columnMappings, entity),
+    [computedFields, columnMappings, entity]
+  );
+  const validComputedFields = useMemo(
+    () => computedFields.filter(computed => !computedFieldErrors[computed.id]),
+    [computedFields, computedFieldErrors]
+  );
 
-  const { showSuccess, showError, ToastComponent } = useCustomToast();
-
-  // Required API fields based on ProductTypeDto
-  const requiredApiFields = [
-    'companyID',
-    'productTypeID',
-    'companyName',
-    'productName',
-    'productDescription',
-    'productImage',
-    'globalProductCategory',
-    'netContent',
+  // Row-wide work runs only on the steps that show it; while mapping it waits
+  // until the edits pause, so large files don't make the mapping UI lag
+  const activeStepId = findImportStep(stepParam)?.id;
+  const validatesRows = activeStepId === 'map' || activeStepId === 'review' || activeStepId === 'confirm';
+  const plansImport = activeStepId === 'review' || activeStepId === 'confirm';
+  const settledMappings = useDebouncedValue(columnMappings, MAPPING_SETTLE_MS);
+  const settledComputedFields = useDebouncedValue(validComputedFields, MAPPING_SETTLE_MS);
+  const validationMappings = activeStepId === 'map' ? settledMappings : columnMappings;
+  const validationComputedFields = activeStepId === 'map' ? settledComputedFields : validComputedFields;
+
+  const rowErrors = useMemo(
+    () => (validatesRows
+      ? validateRows(csvData, validationMappings, entity.fields, validationComputedFields)
+      : NO_ROW_ERRORS),
+    [validatesRows, csvData, validationMappings, entity, validationComputedFields]
+  );
+
+  const existingRecords = existingRecordsQuery.data ?? NO_EXISTING_RECORDS;
+
+  const importPlan = useMemo(() => {
+    if (!plansImport) return EMPTY_IMPORT_PLAN;
+    const incomingRecords = transformRows(csvData, columnMappings, entity, validComputedFields);
+    const excludedIndexes = new Set(
+      excludeInvalidRows ? rowErrors.flatMap((errors, index) => (hasRowErrors(errors) ? [index] : [])) : []
+    );
+    return buildImportPlan(incomingRecords, existingRecords, keyFields, importMode, excludedIndexes);
+  }, [plansImport, csvData, columnMappings, entity, validComputedFields, rowErrors, excludeInvalidRows, existingRecords, keyFields, importMode]);
+
+  const plannedUpdates = useMemo(
+    () => importPlan.records.filter(planned => planned.action === 'update'),
+    [importPlan]
+  );
+
+  const uploadItems = useMemo(() => {
+    const created = importPlan.records.filter(planned => planned.action === 'create');
+    // Only accepted field changes are sent; updates with every change rejected are dropped
+    const updated: UploadItem[] = plannedUpdates.flatMap(planned => {
+      const changes = diffRecords(planned.existing, planned.record);
+      const rejected = rejectedChanges[planned.key] || [];
+      return getAcceptedChanges(changes, rejected).length > 0
+        ? [{ rowIndex: planned.index, action: 'update' as const, record: applyChanges(planned.existing, changes, rejected) }]
+        : [];
+    });
+    return { created, updated };
+  }, [importPlan, plannedUpdates, rejectedChanges]);
+
+  // Each step is complete once its blocker is null; a step can only be opened
+  // when every step before it is complete
+  const mappedDtoFields = [
+    ...columnMappings.filter(m => isFieldMapping(m) && m.isValid).map(m => m.mappedName),
+    ...computedFields.map(computed => computed.field),
   ];
+  const missingFields = getRequiredFields(entity).filter(field => !mappedDtoFields.includes(field));
+  const duplicatedFields = Array.from(new Set(
+    mappedDtoFields.filter((field, index) => mappedDtoFields.indexOf(field) !== index)
+  ));
+  const invalidRowCount = rowErrors.filter(hasRowErrors).length;
+  const hasMappingIssues = columnMappings.some(mapping => !mapping.isValid)
+    || Object.keys(computedFieldErrors).length > 0;
+  const uploadStarted = importResult !== null || entityUpload.status !== 'idle';
+
+  // Until the existing records are loaded every row would look new
+  let planBlocker: string | null = null;
+  if (existingRecordsQuery.isPending) {
+    planBlocker = `Loading existing ${entity.label.toLowerCase()}…`;
+  } else if (existingRecordsQuery.isError) {
+    planBlocker = `Couldn't load existing ${entity.label.toLowerCase()}: ${existingRecordsQuery.error.message}`;
+  } else if (uploadItems.created.length + uploadItems.updated.length === 0) {
+    planBlocker = 'There are no new or changed rows to upload';
+  }
+
+  let mappingBlocker: string | null = null;
+  if (hasMappingIssues) {
+    mappingBlocker = 'Fix all column mapping issues to continue';
+  } else if (missingFields.length > 0) {
+    mappingBlocker = `Missing required fields: ${missingFields.join(', ')}`;
+  } else if (duplicatedFields.length > 0) {
+    mappingBlocker = `Duplicate mappings found for: ${duplicatedFields.join(', ')}`;
+  }
+
+  const stepBlockers: StepBlockers = {
+    upload: csvData.length === 0
+      ? 'Upload a file or paste data to continue'
+      : isParsing ? 'Wait for the file to finish loading' : null,
+    parse: parseIssues.length > 0 ? 'Fix, drop or keep the rows that could not be parsed' : null,
+    map: mappingBlocker,
+    review: invalidRowCount > 0 && !excludeInvalidRows
+      ? `${invalidRowCount} rows have invalid values. Fix them or exclude them to continue`
+      : keyFields.length === 0 ? 'Select at least one field to match existing records on' : null,
+    confirm: uploadStarted ? null : planBlocker ?? 'Start the upload to see the result',
+    result: null,
+  };
 
-  // Simulate API call to fetch existing products
   useEffect(() => {
-    const fetchProducts = async () => {
-      // Simulate API delay
-      setTimeout(() => {
-        const mockProducts: ProductTypeDto[] = [
-          {
-            id: '1',
-            companyID: 'COMP001',
-            productTypeID: 'PT001',
-            companyName: 'Acme Corp',
-            productName: 'Premium Widget',
-            productDescription: 'High-quality widget for professional use',
-            productImage: 'https://via.placeholder.com/150',
-            globalProductCategory: 'Electronics',
-            netContent: 250,
-            metaData: { weight: '1.5kg', color: 'blue' }
-          },
-          {
-            id: '2',
-            companyID: 'COMP002',
-            productTypeID: 'PT002',
-            companyName: 'Tech Solutions',
-            productName: 'Smart Device',
-            productDescription: 'IoT enabled smart device',
-            productImage: 'https://via.placeholder.com/150',
-            globalProductCategory: 'Technology',
-            netContent: 500,
-            metaData: { connectivity: 'WiFi', battery: '10 hours' }
-          }
-        ];
-        setProductData(mockProducts);
-        showSuccess('Products loaded successfully');
-      }, 1000);
-    };
+    if (productsQuery.isError) {
+      showError(`Failed to load products: ${productsQuery.error.message}`);
+    }
+  }, [productsQuery.isError, productsQuery.error, showError]);
+
+  // Replaces the loaded file; records are keyed by column id and mappings are
+  // resolved from the de-duplicated header names
+  const loadRecords = useCallback((rawHeaders: string[], records: CSVData[], issues: ParseIssue[] = []) => {
+    const columns = buildSourceColumns(rawHeaders);
+    setSourceColumns(columns);
+    setCsvData(records);
+    setParseIssues(issues);
+    setExcludeInvalidRows(false);
+    setRejectedChanges({});
+    setComputedFields([]);
+    setImportResult(null);
+    resetUpload();
 
-    fetchProducts();
+    const initial = resolveInitialMappings(columns, entity, profiles);
+    setColumnMappings(initial.mappings);
+    setAppliedProfile(initial.profileMatch);
+    return initial;
+  }, [entity, profiles, resetUpload]);
+
+  const showLoadedMessage = useCallback((rowCount: number, headerCount: number, initial: InitialMappings) => {
+    showSuccess(
+      initial.profileMatch
+        ? `Successfully loaded ${rowCount} rows using profile "${initial.profileMatch.profile.name}"`
+        : `Successfully loaded ${rowCount} rows, auto-mapped ${initial.autoMappedCount} of ${headerCount} columns`
+    );
   }, [showSuccess]);
 
-  const validateAllColumnMappings = (mappings: ColumnMapping[]): ColumnMapping[] => {
-    const updatedMappings = [...mappings];
-    const dtoFieldUsage = new Map<string, number>(); // Track how many times each DTO field is used
-    
-    // Count usage of each DTO field
-    mappings.forEach(mapping => {
-      if (!mapping.isMetadata && mapping.mappedName && mapping.mappedName !== '' && mapping.mappedName !== 'metaData') {
-        const currentCount = dtoFieldUsage.get(mapping.mappedName) || 0;
-        dtoFieldUsage.set(mapping.mappedName, currentCount + 1);
-      }
-    });
+  const loadParsedRows = useCallback((data: string[][], headerRowIndex = 0) => {
+    if (data.length < headerRowIndex + 2) {
+      showError('File must contain header and at least one data row');
+      return;
+    }
 
-    // Validate each mapping
-    updatedMappings.forEach((mapping, index) => {
-      if (!mapping.mappedName || mapping.mappedName.trim() === '') {
-        updatedMappings[index] = {
-          ...mapping,
-          isValid: false,
-          errorMessage: 'Please select a mapping for this column',
-        };
-      } else if (mapping.mappedName === 'metaData') {
-        updatedMappings[index] = {
-          ...mapping,
-          isValid: true,
-          isMetadata: true,
-          errorMessage: undefined,
-        };
-      } else if (requiredApiFields.includes(mapping.mappedName)) {
-        const usageCount = dtoFieldUsage.get(mapping.mappedName) || 0;
-        if (usageCount > 1) {
-          updatedMappings[index] = {
-            ...mapping,
-            isValid: false,
-            isMetadata: false,
-            errorMessage: `"${mapping.mappedName}" is already mapped to another column. Each DTO field can only be mapped once.`,
-          };
-        } else {
-          updatedMappings[index] = {
-            ...mapping,
-            isValid: true,
-            isMetadata: false,
-            errorMessage: undefined,
-          };
-        }
-      } else {
-        updatedMappings[index] = {
-          ...mapping,
-          isValid: false,
-          isMetadata: false,
-          errorMessage: `"${mapping.mappedName}" is not a valid ProductTypeDto field. Please select from the available fields or choose metaData.`,
-        };
-      }
-    });
+    const headers = data[headerRowIndex];
+    const rows = data.slice(headerRowIndex + 1).filter(row => row.some(cell => cell.trim() !== ''));
+
+    const csvObjects = rows.map(row => rowToRecord(row, headers.length));
+
+    const initial = loadRecords(headers, csvObjects);
+    showLoadedMessage(csvObjects.length, headers.length, initial);
+  }, [showError, loadRecords, showLoadedMessage]);
+
+  // Switching the target remaps an already loaded file against the new schema
+  const handleEntityChange = (newEntityId: string) => {
+    if (newEntityId === entityId) return;
+    setEntityId(newEntityId);
+    setKeyFields(getEntitySchema(newEntityId).naturalKey);
+    setRejectedChanges({});
+    setComputedFields([]);
+    if (sourceColumns.length > 0) {
+      const { mappings, profileMatch } = resolveInitialMappings(
+        sourceColumns,
+        getEntitySchema(newEntityId),
+        profiles
+      );
+      setColumnMappings(mappings);
+      setAppliedProfile(profileMatch);
+    }
+  };
 
-    return updatedMappings;
+  // Rejected changes are keyed by the matched record, so a new key starts the review over
+  const handleKeyFieldsChange = (fields: string[]) => {
+    setKeyFields(fields);
+    setRejectedChanges({});
   };
 
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+  // Drops a partly loaded file; its preview only covers the start of the file
+  const clearPartialFile = useCallback(() => {
+    cancelCsvParse();
+    setSourceColumns([]);
+    setCsvData([]);
+    setParseIssues([]);
+    setColumnMappings([]);
+    setAppliedProfile(null);
+    setLoadedSource(null);
+  }, [cancelCsvParse]);
+
+  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
-
-    if (file.type !== 'text/csv' && !file.name.endsWith('.csv')) {
-      showError('Please upload a valid CSV file');
-      return;
+    event.target.value = '';
+    // Choosing another file mid-stream must not leave the preview rows behind
+    if (isParsing) {
+      clearPartialFile();
     }
 
-    Papa.parse(file, {
-      complete: (results) => {
-        console.log('CSV Parse Results:', results);
-        
-        if (results.errors.length > 0) {
-          showError('Error parsing CSV file');
+    if (isExcelFile(file)) {
+      try {
+        const workbook = await readWorkbook(file);
+        if (workbook.SheetNames.length === 0) {
+          showError('The workbook does not contain any sheets');
           return;
         }
+        setPendingWorkbook({ fileName: file.name, workbook });
+      } catch (error) {
+        console.error('Workbook read failed:', error);
+        showError('Error reading Excel workbook');
+      }
+      return;
+    }
 
-        const data = results.data as string[][];
-        if (data.length < 2) {
-          showError('CSV file must contain header and at least one data row');
+    const feedFormat = getFeedFormat(file);
+    if (feedFormat) {
+      try {
+        const feedDocument = parseFeedDocument(await file.text(), feedFormat);
+        const candidates = findRecordPaths(feedDocument);
+        if (candidates.length === 0) {
+          showError('No records were found in the file');
           return;
         }
+        setPendingFeed({ fileName: file.name, feedDocument, candidates });
+      } catch (error) {
+        console.error('Feed parse failed:', error);
+        showError(`Error reading ${feedFormat.toUpperCase()} file: ${(error as Error).message}`);
+      }
+      return;
+    }
+
+    if (file.type !== 'text/csv' && !file.name.endsWith('.csv')) {
+      showError('Please upload a CSV, Excel, JSON, NDJSON or XML file');
+      return;
+    }
 
-        const headers = data[0];
-        const rows = data.slice(1).filter(row => row.some(cell => cell.trim() !== ''));
-
-        const csvObjects = rows.map(row => {
-          const obj: CSVData = {};
-          headers.forEach((header, index) => {
-            obj[header] = row[index] || '';
-          });
-          return obj;
-        });
-
-        // Initialize mappings with metaData as default
-        const initialMappings: ColumnMapping[] = headers.map(header => ({
-          originalName: header,
-          mappedName: 'metaData',
+    try {
+      setPendingCsv({ file, detection: await detectCsvOptions(file) });
+    } catch (error) {
+      console.error('CSV detection failed:', error);
+      showError('Error reading CSV file');
+    }
+  }, [showError, isParsing, clearPartialFile]);
+
+  const handleCsvSettingsConfirm = useCallback(async (options: CsvParseOptions) => {
+    if (!pendingCsv) return;
+    const { file } = pendingCsv;
+    setPendingCsv(null);
+    setLoadedSource({ kind: 'csv', csv: pendingCsv });
+
+    // The first rows are shown as a preview while the rest of the file streams in
+    let initial: InitialMappings | null = null;
+    try {
+      const result = await parseCsv(file, options, preview => {
+        initial = loadRecords(preview.headers, preview.rows, preview.issues);
+      });
+      if (!result) return;
+
+      if (result.rows.length === 0) {
+        setSourceColumns([]);
+        setCsvData([]);
+        showError('File must contain header and at least one data row');
+        return;
+      }
+      setCsvData(result.rows);
+      setParseIssues(result.issues);
+      if (result.issues.length > 0) {
+        const issueRowCount = new Set(result.issues.map(issue => issue.rowIndex)).size;
+        showWarning(`Loaded ${result.rows.length} rows; ${issueRowCount} rows could not be parsed cleanly and need review`);
+      } else {
+        showLoadedMessage(result.rows.length, result.headers.length, initial);
+      }
+    } catch (error) {
+      console.error('CSV parse failed:', error);
+      setSourceColumns([]);
+      setCsvData([]);
+      showError(`Error parsing CSV file: ${(error as Error).message}`);
+    }
+  }, [pendingCsv, showError, showWarning, loadRecords, showLoadedMessage, parseCsv]);
+
+  const handleCancelParse = () => {
+    clearPartialFile();
+    showWarning('File loading cancelled');
+  };
+
+  const getWorkbookSheetRows = useCallback((sheetName: string) => {
+    return pendingWorkbook ? sheetToRows(pendingWorkbook.workbook, sheetName) : [];
+  }, [pendingWorkbook]);
+
+  const handleSheetConfirm = (sheetName: string, headerRowIndex: number) => {
+    if (!pendingWorkbook) return;
+    loadParsedRows(sheetToRows(pendingWorkbook.workbook, sheetName), headerRowIndex);
+    setLoadedSource({ kind: 'workbook', workbook: pendingWorkbook });
+    setPendingWorkbook(null);
+  };
+
+  // Only the display name changes; rows and mappings stay keyed by column id
+  // Split outputs are renamed like columns but only exist as mappings
+  const handleRenameColumn = (columnId: string, name: string): string | null => {
+    const mappedColumns = columnMappings.map(mapping => ({ id: mapping.columnId, name: mapping.originalName }));
+    const error = validateColumnName(mappedColumns, columnId, name);
+    if (error) return error;
+
+    setSourceColumns(sourceColumns.map(column => (column.id === columnId ? { ...column, name } : column)));
+    const oldName = mappedColumns.find(column => column.id === columnId)?.name;
+    setColumnMappings(columnMappings.map(mapping =>
+      mapping.columnId === columnId ? { ...mapping, originalName: name } : mapping
+    ));
+    setComputedFields(computedFields.map(computed =>
+      computed.kind === 'template'
+        ? { ...computed, expression: renameTemplateColumn(computed.expression, oldName, name) }
+        : computed
+    ));
+    return null;
+  };
+
+  // Replaces the column's outputs; outputs for parts that are kept keep their mapping
+  const handleSplitColumn = (columnId: string, rule: SplitRule | null, outputs: SplitOutput[]) => {
+    const previousOutputs = columnMappings.filter(mapping => mapping.split?.columnId === columnId);
+    const remaining = columnMappings.filter(mapping => mapping.split?.columnId !== columnId);
+    const newOutputs: ColumnMapping[] = rule
+      ? outputs.map(output => {
+        const previous = previousOutputs.find(mapping => mapping.split.part === output.part);
+        return {
+          columnId: splitColumnId(columnId, output.part),
+          originalName: output.name,
+          mappedName: previous?.mappedName ?? 'metaData',
           isValid: true,
-          isMetadata: true,
-          errorMessage: undefined,
-        }));
+          isMetadata: previous?.isMetadata ?? true,
+          transforms: previous?.transforms,
+          valueMap: previous?.valueMap,
+          split: { ...rule, columnId, part: output.part },
+        };
+      })
+      : [];
 
-        setOriginalColumns(headers);
-        setColumnMappings(initialMappings);
-        setCsvData(csvObjects);
-        showSuccess(`Successfully loaded ${csvObjects.length} rows`);
-      },
-      header: false,
-      skipEmptyLines: true,
-    });
+    const parentIndex = remaining.findIndex(mapping => mapping.columnId === columnId);
+    const updatedMappings = [
+      ...remaining.slice(0, parentIndex + 1),
+      ...newOutputs,
+      ...remaining.slice(parentIndex + 1),
+    ];
+    setColumnMappings(validateAllColumnMappings(updatedMappings, entity, computedFields));
+  };
 
-    event.target.value = '';
-  }, [showError, showSuccess]);
+  const handlePasteConfirm = (rows: string[][]) => {
+    cancelCsvParse();
+    loadParsedRows(rows);
+    setLoadedSource({ kind: 'paste' });
+    setPasteDialogOpen(false);
+  };
+
+  const handleRecordPathConfirm = (path: string) => {
+    if (!pendingFeed) return;
+    const { headers, rows } = flattenRecords(getRecordsAtPath(pendingFeed.feedDocument, path));
+    loadParsedRows([headers, ...rows]);
+    setLoadedSource({ kind: 'feed', feed: pendingFeed });
+    setPendingFeed(null);
+  };
+
+  // Offers the same input again with the dialog that chose how it was read
+  const handleChangeParseSettings = () => {
+    switch (loadedSource?.kind) {
+      case 'csv':
+        setPendingCsv(loadedSource.csv);
+        break;
+      case 'workbook':
+        setPendingWorkbook(loadedSource.workbook);
+        break;
+      case 'feed':
+        setPendingFeed(loadedSource.feed);
+        break;
+      case 'paste':
+        setPasteDialogOpen(true);
+        break;
+    }
+  };
 
   const handleColumnMappingChange = (index: number, newMappedName: string) => {
     const updatedMappings = [...columnMappings];
     updatedMappings[index] = {
       ...updatedMappings[index],
       mappedName: newMappedName,
+      confidence: undefined,
+      valueMap: undefined,
     };
     
     // Validate all mappings after the change
-    const validatedMappings = validateAllColumnMappings(updatedMappings);
+    const validatedMappings = validateAllColumnMappings(updatedMappings, entity, computedFields);
     setColumnMappings(validatedMappings);
   };
 
-  const handleEditRow = (row: MRT_Row<CSVData>) => {
-    console.log('Editing row:', row.original);
-    setEditFormData({ ...row.original });
+  const handleValueMapChange = (columnId: string, valueMap: ValueMap) => {
+    setColumnMappings(columnMappings.map(mapping =>
+      mapping.columnId === columnId ? { ...mapping, valueMap } : mapping
+    ));
+  };
+
+  const handleMetaDataSettingsChange = (
+    columnId: string,
+    settings: { metaDataKey?: string; metaDataType?: MetaDataType }
+  ) => {
+    const updatedMappings = columnMappings.map(mapping =>
+      mapping.columnId === columnId ? { ...mapping, ...settings } : mapping
+    );
+    setColumnMappings(validateAllColumnMappings(updatedMappings, entity, computedFields));
+  };
+
+  const handleComputedFieldsChange = (updatedFields: ComputedField[]) => {
+    setComputedFields(updatedFields);
+    setColumnMappings(validateAllColumnMappings(columnMappings, entity, updatedFields));
+  };
+
+  const handleTransformsChange = (columnId: string, steps: TransformStep[]) => {
+    setColumnMappings(columnMappings.map(mapping =>
+      mapping.columnId === columnId ? { ...mapping, transforms: steps.length > 0 ? steps : undefined } : mapping
+    ));
+  };
+
+  const handleSaveProfile = (name: string) => {
+    const mappings: Record<string, string> = {};
+    const valueMaps: Record<string, ValueMap> = {};
+    // Split outputs aren't columns of the file, so they aren't part of the layout
+    columnMappings.filter(mapping => !mapping.split).forEach(mapping => {
+      mappings[mapping.originalName] = mapping.mappedName;
+      if (isFieldMapping(mapping) && mapping.valueMap) {
+        valueMaps[mapping.mappedName] = mapping.valueMap;
+      }
+    });
+    const profile = saveProfile(name, entityId, mappings, valueMaps);
+    setAppliedProfile({ profile, addedHeaders: [], missingHeaders: [] });
+    showSuccess(`Mapping profile "${name}" saved`);
+  };
+
+  const handleApplyProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    setColumnMappings(buildProfileMappings(sourceColumns, profile, entity, computedFields));
+    setAppliedProfile({ profile, ...compareHeaders(profile, columnNames(sourceColumns)) });
+  };
+
+  const handleRenameProfile = (id: string, name: string) => {
+    renameProfile(id, name);
+    if (appliedProfile?.profile.id === id) {
+      setAppliedProfile({ ...appliedProfile, profile: { ...appliedProfile.profile, name } });
+    }
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    deleteProfile(id);
+    if (appliedProfile?.profile.id === id) {
+      setAppliedProfile(null);
+    }
+  };
+
+  const handleExportMapping = () => {
+    const mappingFile = createMappingFile(columnMappings, computedFields, entity.id);
+    const url = URL.createObjectURL(new Blob([JSON.stringify(mappingFile, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${entity.id}-mapping.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportMapping = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    event.target.value = '';
+
+    try {
+      const mappingFile = parseMappingFile(await file.text());
+      if (mappingFile.entityType !== entity.id) {
+        const fileEntity = entitySchemas.find(schema => schema.id === mappingFile.entityType);
+        showError(`${file.name} is a mapping for ${fileEntity?.dtoName ?? mappingFile.entityType}, not ${entity.dtoName}`);
+        return;
+      }
+      const missingColumns = findMissingColumns(mappingFile, sourceColumns);
+      if (missingColumns.length > 0) {
+        showError(`${file.name} maps columns that aren't in this file: ${missingColumns.join(', ')}`);
+        return;
+      }
+
+      const imported = applyMappingFile(mappingFile, sourceColumns);
+      setComputedFields(imported.computedFields);
+      setColumnMappings(validateAllColumnMappings(imported.mappings, entity, imported.computedFields));
+      setAppliedProfile(null);
+      showSuccess(`Imported the mapping from ${file.name}`);
+    } catch (error) {
+      showError(`Failed to import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const openRowEditor = (rowIndex: number) => {
+    setEditFormData({ ...csvData[rowIndex] });
     setEditDialog({
       open: true,
-      rowData: row.original,
-      rowIndex: row.index,
+      rowData: csvData[rowIndex],
+      rowIndex,
     });
   };
 
+  const handleEditRow = (row: MRT_Row<CSVData>) => {
+    openRowEditor(Number(row.id));
+  };
+
+  // Parse issues are tracked by row index, so they are renumbered whenever rows are removed
+  const retainRows = (keep: (index: number) => boolean) => {
+    const keptIndexes = csvData.flatMap((_, index) => (keep(index) ? [index] : []));
+    setCsvData(keptIndexes.map(index => csvData[index]));
+    setParseIssues(retainIssueRows(parseIssues, keptIndexes));
+  };
+
   const handleDeleteRow = (row: MRT_Row<CSVData>) => {
-    const updatedData = csvData.filter((_, index) => index !== row.index);
-    setCsvData(updatedData);
+    const rowIndex = Number(row.id);
+    retainRows(index => index !== rowIndex);
     showSuccess('Row deleted successfully');
   };
 
+  const handleDropIssueRows = (rowIndexes: number[]) => {
+    const dropped = new Set(rowIndexes);
+    retainRows(index => !dropped.has(index));
+    showSuccess(`Dropped ${rowIndexes.length} rows`);
+  };
+
+  const handleKeepIssueRows = (rowIndexes: number[]) => {
+    const kept = new Set(rowIndexes);
+    setParseIssues(parseIssues.filter(issue => !kept.has(issue.rowIndex)));
+  };
+
   const handleSaveEdit = () => {
     if (editDialog.rowIndex !== null) {
       const updatedData = [...csvData];
       updatedData[editDialog.rowIndex] = editFormData;
       setCsvData(updatedData);
+      // Saving the row counts as fixing any parse problem it had
+      setParseIssues(parseIssues.filter(issue => issue.rowIndex !== editDialog.rowIndex));
       setEditDialog({ open: false, rowData: null, rowIndex: null });
       setEditFormData({});
       showSuccess('Row updated successfully');
@@ -273,121 +894,331 @@ const DataImportContainer: React.FC = () => {
     setEditFormData({});
   };
 
-  const handleUploadToAPI = () => {
-    const invalidMappings = columnMappings.filter(mapping => !mapping.isValid);
-    if (invalidMappings.length > 0) {
-      showError('Please fix all column mapping issues before uploading');
+  const handleUploadToAPI = async () => {
+    const blocker = [
+      stepBlockers.upload,
+      stepBlockers.parse,
+      stepBlockers.map,
+      stepBlockers.review,
+      planBlocker,
+    ].find(Boolean);
+    if (blocker) {
+      showError(blocker);
       return;
     }
 
-    // Check if all required fields are mapped
-    const mappedDtoFields = columnMappings
-      .filter(m => !m.isMetadata && m.isValid)
-      .map(m => m.mappedName);
-    
-    const missingFields = requiredApiFields.filter(field => 
-      !mappedDtoFields.includes(field)
-    );
-
-    if (missingFields.length > 0) {
-      showError(`Missing required fields: ${missingFields.join(', ')}`);
-      return;
-    }
+    const { created, updated } = uploadItems;
+    setImportResult(null);
+    navigate(importStepPath('result'));
 
-    // Check for duplicate mappings (extra safety check)
-    const dtoFieldCounts = new Map<string, number>();
-    mappedDtoFields.forEach(field => {
-      dtoFieldCounts.set(field, (dtoFieldCounts.get(field) || 0) + 1);
-    });
+    const items = [
+      ...created.map(planned => ({ rowIndex: planned.index, action: 'create' as const, record: planned.record })),
+      ...updated,
+    ] as UploadItem<EntityRecord>[];
 
-    const duplicatedFields = Array.from(dtoFieldCounts.entries())
-      .filter(([, count]) => count > 1)
-      .map(([field]) => field);
+    const summary = await entityUpload.start(items, batchSize);
+    const { succeeded, failed, total, sent } = summary.progress;
 
-    if (duplicatedFields.length > 0) {
-      showError(`Duplicate mappings found for: ${duplicatedFields.join(', ')}`);
-      return;
+    if (summary.status === 'cancelled') {
+      setImportResult({
+        severity: 'warning',
+        message: `Upload cancelled: ${succeeded} rows uploaded, ${failed} failed, ${total - sent} not sent`,
+      });
+    } else if (failed > 0) {
+      setImportResult({ severity: 'error', message: `Upload finished with ${failed} failed rows; ${succeeded} rows uploaded` });
+    } else {
+      setImportResult({ severity: 'success', message: `Successfully uploaded ${succeeded} ${entity.label.toLowerCase()}` });
     }
+  };
 
-    const transformedData = csvData.map((row, index) => {
-      const newRow: any = {
-        id: `temp-${index}`, // Temporary ID for testing
-      };
-      const metaDataObj: CSVData = {};
-
-      columnMappings.forEach(mapping => {
-        if (mapping.isMetadata) {
-          metaDataObj[mapping.originalName] = row[mapping.originalName];
-        } else {
-          newRow[mapping.mappedName] = row[mapping.originalName];
-        }
-      });
+  // Narrows the grid to the rows the server rejected so they can be fixed and re-sent
+  const handleReviewFailedRows = () => {
+    const failedIndexes = new Set(entityUpload.failures.map(failure => failure.rowIndex));
+    retainRows(index => failedIndexes.has(index));
+    setRejectedChanges({});
+    setImportResult(null);
+    entityUpload.reset();
+    navigate(importStepPath('review'));
+  };
 
-      // Add metadata container if there are metadata fields
-      if (Object.keys(metaDataObj).length > 0) {
-        newRow.metaData = metaDataObj;
-      }
+  // Clears the loaded file so the next import starts from the upload step
+  const resetImport = () => {
+    cancelCsvParse();
+    setSourceColumns([]);
+    setCsvData([]);
+    setParseIssues([]);
+    setColumnMappings([]);
+    setComputedFields([]);
+    setAppliedProfile(null);
+    setRejectedChanges({});
+    setExcludeInvalidRows(false);
+    setLoadedSource(null);
+    setImportResult(null);
+    resetUpload();
+  };
 
-      return newRow as ProductTypeDto;
-    });
+  const handleImportAnother = () => {
+    resetImport();
+    navigate(importStepPath('upload'));
+  };
 
-    console.log('Data ready for API upload:', transformedData);
-    
-    // Simulate API upload and add to existing product data
-    setTimeout(() => {
-      const updatedProducts = [...productData, ...transformedData];
-      setProductData(updatedProducts);
-      setViewMode('productGrid');
-      showSuccess(`Successfully uploaded ${transformedData.length} records!`);
-    }, 1000);
+  const handleFinishImport = () => {
+    resetImport();
+    navigate('/');
   };
 
   // ProductDataGrid handlers
   const handleProductUpdate = (id: string, updatedData: ProductTypeDto) => {
-    console.log('Updating product:', id, updatedData);
-    const updatedProducts = productData.map(product => 
-      product.id === id ? updatedData : product
+    updateProduct.mutate(
+      { id, product: updatedData },
+      {
+        onSuccess: () => showSuccess('Product updated successfully'),
+        onError: (error) => showError(`Failed to update product: ${error.message}`),
+      }
     );
-    setProductData(updatedProducts);
-    showSuccess('Product updated successfully');
   };
 
   const handleProductDelete = (id: string) => {
-    console.log('Deleting product:', id);
-    const updatedProducts = productData.filter(product => product.id !== id);
-    setProductData(updatedProducts);
-    showSuccess('Product deleted successfully');
-  };
-
-  const handleImageUpload = (id: string, file: File) => {
-    console.log('Uploading image for product:', id, file);
-    // Simulate S3 upload - in real implementation, this would get signed URL and upload
-    const mockImageUrl = URL.createObjectURL(file);
-    const updatedProducts = productData.map(product => 
-      product.id === id ? { ...product, productImage: mockImageUrl } : product
-    );
-    setProductData(updatedProducts);
-    showSuccess('Image uploaded successfully');
+    deleteProduct.mutate(id, {
+      onSuccess: () => showSuccess('Product deleted successfully'),
+      onError: (error) => showError(`Failed to delete product: ${error.message}`),
+    });
+  };
+
+  const handleImageUpload = async (id: string, file: File) => {
+    const product = productData.find(p => p.id === id);
+    if (!product) return;
+
+    try {
+      const productImage = await productApi.uploadImage(file);
+      await updateProduct.mutateAsync({ id, product: { ...product, productImage } });
+      showSuccess('Image uploaded successfully');
+    } catch (error) {
+      showError(`Image upload failed: ${(error as Error).message}`);
+    }
   };
 
   const handleAddProduct = (newProduct: Omit<ProductTypeDto, 'id'>) => {
-    const productWithId = {
-      ...newProduct,
-      id: `new-${Date.now()}`,
-    };
-    setProductData([...productData, productWithId]);
-    setAddProductDialogOpen(false);
-    showSuccess('Product added successfully');
+    createProduct.mutate(newProduct, {
+      onSuccess: () => {
+        setAddProductDialogOpen(false);
+        showSuccess('Product added successfully');
+      },
+      onError: (error) => showError(`Failed to add product: ${error.message}`),
+    });
+  };
+
+  const renderStep = (step: ImportStepId) => {
+    switch (step) {
+      case 'upload':
+        return (
+          <>
+            <EntityTypeSection
+              entitySchemas={entitySchemas}
+              selectedEntityId={entityId}
+              onEntityChange={handleEntityChange}
+            />
+
+            <FileUploadSection
+              onFileUpload={handleFileUpload}
+              dataCount={csvData.length}
+              columnCount={sourceColumns.length}
+              parseProgress={csvParseProgress}
+              onCancelParse={handleCancelParse}
+              onPasteData={() => setPasteDialogOpen(true)}
+            />
+
+            {isParsing && (
+              <DataGridSection
+                csvData={csvData}
+                sourceColumns={sourceColumns}
+                onEditRow={handleEditRow}
+                onDeleteRow={handleDeleteRow}
+                isPreview
+              />
+            )}
+          </>
+        );
+      case 'parse':
+        return (
+          <>
+            <ParseSummarySection
+              sourceName={describeSource(loadedSource)}
+              rowCount={csvData.length}
+              columnCount={sourceColumns.length}
+              issueRowCount={new Set(parseIssues.map(issue => issue.rowIndex)).size}
+              onChangeSettings={loadedSource ? handleChangeParseSettings : undefined}
+            />
+
+            <DataGridSection
+              title="Parsed Rows"
+              csvData={csvData}
+              sourceColumns={sourceColumns}
+              onEditRow={handleEditRow}
+              onDeleteRow={handleDeleteRow}
+              parseIssues={parseIssues}
+              onFixRow={openRowEditor}
+              onDropRows={handleDropIssueRows}
+              onKeepRows={handleKeepIssueRows}
+            />
+          </>
+        );
+      case 'map':
+        return (
+          <>
+            <Box sx={{ display: 'flex', flexDirection: { xs: 'column', lg: 'row' }, gap: 3, alignItems: { lg: 'flex-start' } }}>
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <ColumnMappingSection
+                  columnMappings={columnMappings}
+                  onColumnMappingChange={handleColumnMappingChange}
+                  dtoName={entity.dtoName}
+                  requiredApiFields={getRequiredFields(entity)}
+                  optionalApiFields={getOptionalFields(entity)}
+                  profiles={entityProfiles}
+                  appliedProfile={appliedProfile}
+                  onSaveProfile={handleSaveProfile}
+                  onApplyProfile={handleApplyProfile}
+                  onRenameProfile={handleRenameProfile}
+                  onDeleteProfile={handleDeleteProfile}
+                  onRenameColumn={handleRenameColumn}
+                  sampleRows={sampleRows}
+                  onTransformsChange={handleTransformsChange}
+                  computedFields={computedFields}
+                  computedFieldErrors={computedFieldErrors}
+                  onComputedFieldsChange={handleComputedFieldsChange}
+                  onSplitColumn={handleSplitColumn}
+                  onMetaDataSettingsChange={handleMetaDataSettingsChange}
+                  onExportMapping={handleExportMapping}
+                  onImportMapping={handleImportMapping}
+                />
+              </Box>
+              {csvData.length > 0 && (
+                <Box sx={{ width: { xs: '100%', lg: 420 }, flexShrink: 0, position: { lg: 'sticky' }, top: { lg: 16 } }}>
+                  <PayloadPreviewPanel
+                    csvData={csvData}
+                    columnMappings={columnMappings}
+                    entity={entity}
+                    computedFields={validComputedFields}
+                    rowErrors={rowErrors}
+                  />
+                </Box>
+              )}
+            </Box>
+
+            <ValueMappingSection
+              csvData={csvData}
+              columnMappings={columnMappings}
+              fields={entity.fields}
+              onValueMapChange={handleValueMapChange}
+            />
+          </>
+        );
+      case 'review':
+        return (
+          <>
+            <ImportSettingsSection
+              importMode={importMode}
+              keyFields={keyFields}
+              availableKeyFields={getFieldNames(entity)}
+              onImportModeChange={setImportMode}
+              onKeyFieldsChange={handleKeyFieldsChange}
+            />
+
+            <DataGridSection
+              csvData={csvData}
+              sourceColumns={sourceColumns}
+              rowErrors={rowErrors}
+              excludeInvalidRows={excludeInvalidRows}
+              onExcludeInvalidRowsChange={setExcludeInvalidRows}
+              onEditRow={handleEditRow}
+              onDeleteRow={handleDeleteRow}
+            />
+
+            <DiffReviewSection
+              updates={plannedUpdates}
+              rejectedChanges={rejectedChanges}
+              onRejectedChangesChange={setRejectedChanges}
+            />
+          </>
+        );
+      case 'confirm':
+        return (
+          <ImportPlanSection
+            plan={importPlan}
+            createCount={uploadItems.created.length}
+            updateCount={uploadItems.updated.length}
+            existingRecordCount={existingRecords.length}
+            batchSize={batchSize}
+            onBatchSizeChange={setBatchSize}
+            onUploadToAPI={handleUploadToAPI}
+            isUploading={entityUpload.isActive}
+            uploadBlocker={planBlocker}
+          />
+        );
+      case 'result':
+        return (
+          <>
+            {importResult && (
+              <Alert severity={importResult.severity} sx={{ mb: 3 }}>
+                {importResult.message}
+              </Alert>
+            )}
+
+            <UploadProgressSection
+              status={entityUpload.status}
+              progress={entityUpload.progress}
+              failures={entityUpload.failures}
+              onPause={entityUpload.pause}
+              onResume={entityUpload.resume}
+              onCancel={entityUpload.cancel}
+              onReviewFailedRows={handleReviewFailedRows}
+              onDismiss={entityUpload.reset}
+            />
+
+            {!entityUpload.isActive && (
+              <Paper elevation={2} sx={{ p: 3, mb: 3, display: 'flex', gap: 2, borderRadius: 2 }}>
+                <Button variant="contained" onClick={handleImportAnother}>
+                  Import Another File
+                </Button>
+                <Button variant="outlined" onClick={handleFinishImport}>
+                  Back to Products
+                </Button>
+              </Paper>
+            )}
+          </>
+        );
+    }
   };
 
-  if (viewMode === 'csvImport') {
+  if (stepParam !== undefined) {
+    const activeStep = findImportStep(stepParam);
+    const reachableIndex = getReachableStepIndex(stepBlockers);
+    const activeIndex = IMPORT_STEPS.findIndex(step => step.id === activeStep?.id);
+
+    // Steps can't be skipped, and nothing but the result can be opened while uploading
+    if (entityUpload.isActive && activeStep?.id !== 'result') {
+      return <Navigate to={importStepPath('result')} replace />;
+    }
+    if (!activeStep) {
+      return <Navigate to={importStepPath('upload')} replace />;
+    }
+    if (activeIndex > reachableIndex) {
+      return <Navigate to={importStepPath(IMPORT_STEPS[reachableIndex].id)} replace />;
+    }
+
+    const previousStep = IMPORT_STEPS[activeIndex - 1];
+    const nextStep = IMPORT_STEPS[activeIndex + 1];
+    // Confirm moves on by uploading and the result has its own actions
+    const hasNavigation = activeStep.id !== 'result';
+
     return (
       <Box sx={{ p: 3 }}>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
           <Button
             startIcon={<ArrowBackIcon />}
-            onClick={() => setViewMode('productGrid')}
+            onClick={() => navigate('/')}
             variant="outlined"
+            disabled={entityUpload.isActive}
           >
             Back to Products
           </Button>
@@ -395,34 +1226,63 @@ const DataImportContainer: React.FC = () => {
             CSV Data Import & Mapping Tool
           </Typography>
         </Box>
-        
-        <FileUploadSection
-          onFileUpload={handleFileUpload}
-          dataCount={csvData.length}
-          columnCount={originalColumns.length}
-          onUploadToAPI={handleUploadToAPI}
-        />
 
-        <ColumnMappingSection
-          columnMappings={columnMappings}
-          onColumnMappingChange={handleColumnMappingChange}
-          requiredApiFields={requiredApiFields}
+        <ImportStepper
+          activeStep={activeStep.id}
+          reachableIndex={entityUpload.isActive ? activeIndex : reachableIndex}
+          onStepChange={(step) => navigate(importStepPath(step))}
         />
 
-        <DataGridSection
-          csvData={csvData}
-          originalColumns={originalColumns}
-          onEditRow={handleEditRow}
-          onDeleteRow={handleDeleteRow}
-        />
+        {renderStep(activeStep.id)}
+
+        {hasNavigation && (
+          <StepNavigation
+            onBack={previousStep ? () => navigate(importStepPath(previousStep.id)) : undefined}
+            onNext={activeStep.id !== 'confirm' ? () => navigate(importStepPath(nextStep.id)) : undefined}
+            blocker={stepBlockers[activeStep.id]}
+          />
+        )}
 
         <EditRowDialog
           open={editDialog.open}
-          originalColumns={originalColumns}
+          sourceColumns={sourceColumns}
           editFormData={editFormData}
           onClose={handleCloseEdit}
           onSave={handleSaveEdit}
           onFormDataChange={setEditFormData}
+          rowIssues={parseIssues.filter(issue => issue.rowIndex === editDialog.rowIndex)}
+        />
+
+        <SheetPickerDialog
+          open={pendingWorkbook !== null}
+          fileName={pendingWorkbook?.fileName || ''}
+          sheetNames={pendingWorkbook?.workbook.SheetNames || []}
+          getSheetRows={getWorkbookSheetRows}
+          onClose={() => setPendingWorkbook(null)}
+          onConfirm={handleSheetConfirm}
+        />
+
+        <PasteDataDialog
+          open={pasteDialogOpen}
+          onClose={() => setPasteDialogOpen(false)}
+          onConfirm={handlePasteConfirm}
+        />
+
+        <RecordPathDialog
+          open={pendingFeed !== null}
+          fileName={pendingFeed?.fileName || ''}
+          feedDocument={pendingFeed?.feedDocument}
+          candidates={pendingFeed?.candidates || []}
+          onClose={() => setPendingFeed(null)}
+          onConfirm={handleRecordPathConfirm}
+        />
+
+        <CsvSettingsDialog
+          open={pendingCsv !== null}
+          fileName={pendingCsv?.file.name || ''}
+          detection={pendingCsv?.detection || null}
+          onClose={() => setPendingCsv(null)}
+          onConfirm={handleCsvSettingsConfirm}
         />
 
         {ToastComponent}
@@ -440,7 +1300,7 @@ const DataImportContainer: React.FC = () => {
           <Button
             variant="outlined"
             startIcon={<UploadIcon />}
-            onClick={() => setViewMode('csvImport')}
+            onClick={() => navigate(importStepPath('upload'))}
           >
             Import CSV Data
           </Button>
@@ -456,6 +1316,7 @@ const DataImportContainer: React.FC = () => {
 
       <ProductDataGrid
         data={productData}
+        isLoading={productsQuery.isLoading}
         onUpdate={handleProductUpdate}
         onDelete={handleProductDelete}
         onImageUpload={handleImageUpload}
@@ -466,7 +1327,6 @@ const DataImportContainer: React.FC = () => {
         onClose={() => setAddProductDialogOpen(false)}
         onSave={handleAddProduct}
         onImageUpload={handleImageUpload}
-        requiredApiFields={requiredApiFields}
       />
 
       {ToastComponent}
@@ -0,0 +1,112 @@
+import { useState, useCallback, useRef } from 'react';
+import {
+  chunkItems,
+  withRetry,
+  EMPTY_PROGRESS,
+  type UploadBatch,
+  type UploadFailure,
+  type UploadItem,
+  type UploadProgress,
+  type UploadStatus,
+} from '../lib/chunkedUpload';
+
+export interface UploadSummary {
+  status: UploadStatus;
+  progress: UploadProgress;
+  failures: UploadFailure[];
+}
+
+/**
+ * Sends items in batches, one request at a time. Pausing and cancelling take
+ * effect between batches; the request in flight is always allowed to finish.
+ */
+export const useChunkedUpload = <T>(uploadBatch: UploadBatch<T>) => {
+  const [status, setStatus] = useState<UploadStatus>('idle');
+  const [progress, setProgress] = useState<UploadProgress>(EMPTY_PROGRESS);
+  const [failures, setFailures] = useState<UploadFailure[]>([]);
+
+  const pausedRef = useRef(false);
+  const cancelledRef = useRef(false);
+  const resumeRef = useRef<(() => void) | null>(null);
+
+  const wake = useCallback(() => {
+    resumeRef.current?.();
+    resumeRef.current = null;
+  }, []);
+
+  const start = useCallback(async (items: UploadItem<T>[], batchSize: number): Promise<UploadSummary> => {
+    pausedRef.current = false;
+    cancelledRef.current = false;
+
+    let current: UploadProgress = { ...EMPTY_PROGRESS, total: items.length };
+    const allFailures: UploadFailure[] = [];
+    setProgress(current);
+    setFailures([]);
+    setStatus('running');
+
+    for (const batch of chunkItems(items, batchSize)) {
+      while (pausedRef.current && !cancelledRef.current) {
+        await new Promise<void>(resolve => {
+          resumeRef.current = resolve;
+        });
+      }
+      if (cancelledRef.current) break;
+
+      let batchFailures: UploadFailure[];
+      try {
+        batchFailures = await withRetry(() => uploadBatch(batch), () => cancelledRef.current);
+      } catch (error) {
+        const message = (error as Error).message || 'Request failed';
+        batchFailures = batch.map(item => ({ rowIndex: item.rowIndex, error: message }));
+      }
+
+      allFailures.push(...batchFailures);
+      current = {
+        ...current,
+        sent: current.sent + batch.length,
+        succeeded: current.succeeded + batch.length - batchFailures.length,
+        failed: current.failed + batchFailures.length,
+      };
+      setProgress(current);
+      setFailures([...allFailures]);
+    }
+
+    const finalStatus: UploadStatus = cancelledRef.current ? 'cancelled' : 'completed';
+    setStatus(finalStatus);
+    return { status: finalStatus, progress: current, failures: allFailures };
+  }, [uploadBatch]);
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    setStatus(prev => (prev === 'running' ? 'paused' : prev));
+  }, []);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    setStatus(prev => (prev === 'paused' ? 'running' : prev));
+    wake();
+  }, [wake]);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+    wake();
+  }, [wake]);
+
+  const reset = useCallback(() => {
+    setStatus('idle');
+    setProgress(EMPTY_PROGRESS);
+    setFailures([]);
+  }, []);
+
+  return {
+    status,
+    progress,
+    failures,
+    isActive: status === 'running' || status === 'paused',
+    start,
+    pause,
+    resume,
+    cancel,
+    reset,
+  };
+};
@@ -0,0 +1,106 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  PREVIEW_ROW_COUNT,
+  type CsvParseMessage,
+  type CsvParseProgress,
+  type CsvParseRequest,
+  type CsvParseResult,
+} from '../lib/csvStream';
+import { type ParseIssue } from '../lib/parseIssues';
+import { type CsvParseOptions } from '../lib/csvDetection';
+import { type CSVData } from '../types/import';
+
+interface ActiveParse {
+  worker: Worker;
+  // Settles the pending parse promise with null when the parse is cancelled
+  cancel: () => void;
+}
+
+/**
+ * Parses CSV files in a Web Worker. Resolves with all rows once the file is
+ * read, or null when cancelled; onPreview fires with the first rows as soon as
+ * they are available.
+ */
+export const useCsvParser = () => {
+  const [progress, setProgress] = useState<CsvParseProgress | null>(null);
+  const activeRef = useRef<ActiveParse | null>(null);
+
+  const stop = useCallback(() => {
+    activeRef.current?.worker.terminate();
+    activeRef.current?.cancel();
+    activeRef.current = null;
+    setProgress(null);
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  const parse = useCallback((
+    file: File,
+    options: CsvParseOptions,
+    onPreview: (result: CsvParseResult) => void
+  ): Promise<CsvParseResult | null> => {
+    stop();
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('../workers/csvParser.worker.ts', import.meta.url), { type: 'module' });
+      activeRef.current = { worker, cancel: () => resolve(null) };
+      setProgress({ bytesRead: 0, totalBytes: file.size, rowCount: 0 });
+
+      let headers: string[] = [];
+      const rows: CSVData[] = [];
+      const issues: ParseIssue[] = [];
+      let previewSent = false;
+
+      const finish = () => {
+        worker.terminate();
+        activeRef.current = null;
+        setProgress(null);
+      };
+
+      worker.onmessage = (event: MessageEvent<CsvParseMessage>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'headers':
+            headers = message.headers;
+            break;
+          case 'rows':
+            message.rows.forEach(row => rows.push(row));
+            message.issues.forEach(issue => issues.push(issue));
+            setProgress(message.progress);
+            if (!previewSent && rows.length > 0) {
+              previewSent = true;
+              onPreview({
+                headers,
+                rows: rows.slice(0, PREVIEW_ROW_COUNT),
+                issues: issues.filter(issue => issue.rowIndex < PREVIEW_ROW_COUNT),
+              });
+            }
+            break;
+          case 'complete':
+            finish();
+            resolve({ headers, rows, issues });
+            break;
+          case 'error':
+            finish();
+            reject(new Error(message.message));
+            break;
+        }
+      };
+
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || 'CSV parser failed'));
+      };
+
+      const request: CsvParseRequest = { file, options };
+      worker.postMessage(request);
+    });
+  }, [stop]);
+
+  return {
+    progress,
+    isParsing: progress !== null,
+    parse,
+    cancel: stop,
+  };
+};
@@ -0,0 +1,52 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getEntityApi, type EntityRecord } from '../services';
+import { productTypeEntity } from '../schemas/productType';
+import { type UploadItem } from '../lib/chunkedUpload';
+import { useChunkedUpload } from './useChunkedUpload';
+import { productsQueryKey } from './useProducts';
+
+// Products share the product grid's cache so an import refreshes the grid
+const entityRecordsQueryKey = (entityId: string) =>
+  entityId === productTypeEntity.id ? productsQueryKey : ['entityRecords', entityId];
+
+// The records an import is matched against
+export const useEntityRecordsQuery = (entityId: string) =>
+  useQuery({
+    queryKey: entityRecordsQueryKey(entityId),
+    queryFn: () => getEntityApi(entityId).list() as Promise<EntityRecord[]>,
+  });
+
+// Batched bulk import; failures reported by the server are mapped back to source rows
+export const useChunkedEntityImport = (entityId: string) => {
+  const queryClient = useQueryClient();
+
+  const uploadBatch = useCallback(async (batch: UploadItem<EntityRecord>[]) => {
+    const creates = batch.filter(item => item.action === 'create');
+    const updates = batch.filter(item => item.action === 'update');
+    const result = await getEntityApi(entityId).bulkImport({
+      create: creates.map(item => item.record),
+      update: updates.map(item => item.record),
+    });
+
+    const sentOrder = [...creates, ...updates];
+    return result.failed.map(failure => ({
+      rowIndex: sentOrder[failure.index].rowIndex,
+      error: failure.error,
+    }));
+  }, [entityId]);
+
+  const upload = useChunkedUpload(uploadBatch);
+  const { start: startUpload } = upload;
+
+  // The entity's records are refreshed once, after the last batch
+  const start = useCallback(async (items: UploadItem<EntityRecord>[], batchSize: number) => {
+    try {
+      return await startUpload(items, batchSize);
+    } finally {
+      queryClient.invalidateQueries({ queryKey: entityRecordsQueryKey(entityId) });
+    }
+  }, [startUpload, queryClient, entityId]);
+
+  return { ...upload, start };
+};
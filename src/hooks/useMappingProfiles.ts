@@ -0,0 +1,60 @@
+import { useState, useCallback } from 'react';
+import {
+  isProfileForEntity,
+  loadProfiles,
+  storeProfiles,
+  type MappingProfile,
+} from '../lib/mappingProfiles';
+import { type ValueMap } from '../lib/valueMaps';
+
+export const useMappingProfiles = () => {
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => loadProfiles());
+
+  const updateProfiles = useCallback((updater: (current: MappingProfile[]) => MappingProfile[]) => {
+    setProfiles(current => {
+      const next = updater(current);
+      storeProfiles(next);
+      return next;
+    });
+  }, []);
+
+  // Saving under an existing name for the same entity type overwrites that profile
+  const saveProfile = useCallback((
+    name: string,
+    entityType: string,
+    mappings: Record<string, string>,
+    valueMaps: Record<string, ValueMap> = {}
+  ): MappingProfile => {
+    const now = new Date().toISOString();
+    const existing = profiles.find(profile => profile.name === name && isProfileForEntity(profile, entityType));
+    const profile: MappingProfile = existing
+      ? { ...existing, entityType, mappings, valueMaps, updatedAt: now }
+      : { id: `profile-${Date.now()}`, name, entityType, mappings, valueMaps, createdAt: now, updatedAt: now };
+
+    updateProfiles(current =>
+      existing
+        ? current.map(p => (p.id === existing.id ? profile : p))
+        : [...current, profile]
+    );
+    return profile;
+  }, [profiles, updateProfiles]);
+
+  const renameProfile = useCallback((id: string, name: string) => {
+    updateProfiles(current =>
+      current.map(profile =>
+        profile.id === id ? { ...profile, name, updatedAt: new Date().toISOString() } : profile
+      )
+    );
+  }, [updateProfiles]);
+
+  const deleteProfile = useCallback((id: string) => {
+    updateProfiles(current => current.filter(profile => profile.id !== id));
+  }, [updateProfiles]);
+
+  return {
+    profiles,
+    saveProfile,
+    renameProfile,
+    deleteProfile,
+  };
+};
@@ -0,0 +1,34 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { productApi } from '../services';
+import { type ProductTypeDto } from '../schemas/productType';
+
+export const productsQueryKey = ['products'] as const;
+
+export const useProductsQuery = () =>
+  useQuery({
+    queryKey: productsQueryKey,
+    queryFn: () => productApi.list(),
+  });
+
+// Every product mutation refreshes the product list once it settles
+const useProductMutation = <TVariables, TResult>(mutationFn: (variables: TVariables) => Promise<TResult>) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: productsQueryKey }),
+  });
+};
+
+export const useCreateProduct = () =>
+  useProductMutation((product: Omit<ProductTypeDto, 'id'>) => productApi.create(product));
+
+export const useUpdateProduct = () =>
+  useProductMutation(({ id, product }: { id: string; product: ProductTypeDto }) => productApi.update(id, product));
+
+export const useDeleteProduct = () =>
+  useProductMutation((id: string) => productApi.delete(id));
+
+export const useUploadProductImage = () =>
+  useMutation({
+    mutationFn: (file: File) => productApi.uploadImage(file),
+  });
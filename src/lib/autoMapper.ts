@@ -0,0 +1,109 @@
+import { type FieldDefinitions } from '../schemas/fieldDefinition';
+
+export interface AutoMapMatch {
+  field: string;
+  confidence: number;
+}
+
+// Matches below this score are left as metaData for manual review
+export const AUTO_MAP_THRESHOLD = 0.6;
+export const HIGH_CONFIDENCE_THRESHOLD = 0.85;
+
+const SYNONYM_SCORE = 0.95;
+// Earlier synonyms are closer to the field, so when two headers are both
+// synonyms ("Brand", "Company") the field goes to the first-listed one
+const SYNONYM_RANK_STEP = 0.001;
+// Fuzzy matches always need a look, so they stay below HIGH_CONFIDENCE_THRESHOLD
+const MAX_FUZZY_SCORE = 0.8;
+
+// "Product_Name ", "productName" and "PRODUCT-NAME" all become "product name"
+export const normalizeHeader = (value: string): string =>
+  value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/ /g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+};
+
+// Sørensen–Dice coefficient over character bigrams
+export const diceSimilarity = (a: string, b: string): number => {
+  const aBigrams = bigrams(a);
+  const bBigrams = bigrams(b);
+  if (aBigrams.length === 0 || bBigrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  aBigrams.forEach(bigram => counts.set(bigram, (counts.get(bigram) || 0) + 1));
+
+  let overlap = 0;
+  bBigrams.forEach(bigram => {
+    const count = counts.get(bigram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(bigram, count - 1);
+    }
+  });
+
+  return (2 * overlap) / (aBigrams.length + bBigrams.length);
+};
+
+export const scoreHeader = (header: string, field: string, fieldSynonyms: string[] = []): number => {
+  const normalizedHeader = normalizeHeader(header);
+  if (!normalizedHeader) return 0;
+
+  const normalizedField = normalizeHeader(field);
+  if (normalizedHeader === normalizedField || normalizedHeader.replace(/ /g, '') === field.toLowerCase()) {
+    return 1;
+  }
+
+  const synonyms = fieldSynonyms.map(normalizeHeader);
+  const synonymIndex = synonyms.indexOf(normalizedHeader);
+  if (synonymIndex !== -1) {
+    return SYNONYM_SCORE - synonymIndex * SYNONYM_RANK_STEP;
+  }
+
+  const fuzzyScore = Math.max(
+    diceSimilarity(normalizedHeader, normalizedField),
+    ...synonyms.map(synonym => diceSimilarity(normalizedHeader, synonym))
+  );
+  return Math.min(fuzzyScore, MAX_FUZZY_SCORE);
+};
+
+/**
+ * Suggests a DTO field for each header. Every field is used at most once:
+ * the highest scoring header/field pairs are assigned first, and headers
+ * without a match above AUTO_MAP_THRESHOLD get null.
+ */
+export const suggestColumnMappings = (headers: string[], fields: FieldDefinitions): (AutoMapMatch | null)[] => {
+  const candidates: { headerIndex: number; field: string; confidence: number }[] = [];
+
+  headers.forEach((header, headerIndex) => {
+    Object.entries(fields).forEach(([field, definition]) => {
+      const confidence = scoreHeader(header, field, definition.synonyms);
+      if (confidence >= AUTO_MAP_THRESHOLD) {
+        candidates.push({ headerIndex, field, confidence });
+      }
+    });
+  });
+
+  candidates.sort((a, b) => b.confidence - a.confidence);
+
+  const result: (AutoMapMatch | null)[] = headers.map(() => null);
+  const usedFields = new Set<string>();
+
+  candidates.forEach(({ headerIndex, field, confidence }) => {
+    if (result[headerIndex] || usedFields.has(field)) return;
+    result[headerIndex] = { field, confidence };
+    usedFields.add(field);
+  });
+
+  return result;
+};
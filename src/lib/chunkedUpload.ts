@@ -0,0 +1,81 @@
+import { ApiError } from '../services/productApi';
+import { type CSVData } from '../types/import';
+
+export const DEFAULT_BATCH_SIZE = 500;
+export const MAX_BATCH_SIZE = 5000;
+export const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export interface UploadItem<T = CSVData> {
+  // Index of the source row, so failures can be traced back to the grid
+  rowIndex: number;
+  action: 'create' | 'update';
+  record: T;
+}
+
+export interface UploadFailure {
+  rowIndex: number;
+  error: string;
+}
+
+export interface UploadProgress {
+  total: number;
+  sent: number;
+  succeeded: number;
+  failed: number;
+}
+
+export type UploadStatus = 'idle' | 'running' | 'paused' | 'cancelled' | 'completed';
+
+// Resolves to the rows of the batch the server rejected; throws when the whole request fails
+export type UploadBatch<T> = (batch: UploadItem<T>[]) => Promise<UploadFailure[]>;
+
+export const EMPTY_PROGRESS: UploadProgress = { total: 0, sent: 0, succeeded: 0, failed: 0 };
+
+export const chunkItems = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+};
+
+export const clampBatchSize = (size: number): number =>
+  Math.min(MAX_BATCH_SIZE, Math.max(1, Math.floor(size) || DEFAULT_BATCH_SIZE));
+
+// Network errors, timeouts, rate limiting and server errors are worth retrying;
+// anything else (e.g. a 400) will fail the same way again
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof ApiError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return error instanceof TypeError;
+};
+
+// Exponential backoff with jitter: ~1s, 2s, 4s…
+export const getRetryDelay = (attempt: number): number =>
+  RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * RETRY_BASE_DELAY_MS;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs the task, retrying transient failures with backoff. Stops retrying
+ * once shouldAbort returns true and rethrows the last error.
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  shouldAbort: () => boolean = () => false,
+  retries = MAX_RETRIES
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error) || shouldAbort()) {
+        throw error;
+      }
+      await sleep(getRetryDelay(attempt));
+      if (shouldAbort()) throw error;
+    }
+  }
+};
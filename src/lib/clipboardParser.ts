@@ -0,0 +1,18 @@
+import Papa from 'papaparse';
+
+/**
+ * Parses cells copied from a spreadsheet, which arrive tab-separated. Text
+ * without tabs (e.g. pasted CSV) falls back to delimiter detection. Without a
+ * header row, blank headers are returned so they are auto-named downstream.
+ */
+export const parsePastedText = (text: string, hasHeaderRow: boolean): string[][] => {
+  // Only trailing line breaks are dropped; leading and trailing tabs are empty cells
+  const { data } = Papa.parse<string[]>(text.replace(/(\r?\n)+$/, ''), {
+    delimiter: text.includes('\t') ? '\t' : '',
+    skipEmptyLines: true,
+  });
+  if (data.length === 0 || hasHeaderRow) return data;
+
+  const columnCount = Math.max(...data.map(row => row.length));
+  return [Array.from({ length: columnCount }, () => ''), ...data];
+};
@@ -0,0 +1,44 @@
+import { type SourceColumn } from '../types/import';
+
+// Row data is keyed by column id, so renaming a column never touches the rows
+export const columnIdFor = (index: number): string => `col${index}`;
+
+/**
+ * Turns raw header cells into unique display names: blank headers become
+ * "Column N" and repeats get a numeric suffix ("Size", "Size (2)").
+ */
+export const dedupeHeaders = (rawHeaders: string[]): string[] => {
+  const used = new Set<string>();
+  const names: string[] = [];
+
+  rawHeaders.forEach((raw, index) => {
+    const base = String(raw ?? '').trim() || `Column ${index + 1}`;
+    let name = base;
+    for (let suffix = 2; used.has(name.toLowerCase()); suffix++) {
+      name = `${base} (${suffix})`;
+    }
+    used.add(name.toLowerCase());
+    names.push(name);
+  });
+
+  return names;
+};
+
+export const buildSourceColumns = (rawHeaders: string[]): SourceColumn[] =>
+  dedupeHeaders(rawHeaders).map((name, index) => ({ id: columnIdFor(index), name }));
+
+export const rowToRecord = (row: string[], columnCount: number): Record<string, string> => {
+  const record: Record<string, string> = {};
+  for (let index = 0; index < columnCount; index++) {
+    record[columnIdFor(index)] = row[index] || '';
+  }
+  return record;
+};
+
+// Returns an error message, or null when the name can be used
+export const validateColumnName = (columns: SourceColumn[], columnId: string, name: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Column name cannot be empty';
+  const taken = columns.some(column => column.id !== columnId && column.name.toLowerCase() === trimmed.toLowerCase());
+  return taken ? `Another column is already named "${trimmed}"` : null;
+};
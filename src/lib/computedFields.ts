@@ -0,0 +1,79 @@
+import { type CSVData, type ColumnMapping, type ComputedField, type ComputedFieldKind } from '../types/import';
+import { getFieldNames, type EntitySchema } from '../schemas';
+import { getMappedValue } from './transforms';
+import { isFieldMapping } from './metaData';
+
+// Computed field id → error message
+export type ComputedFieldErrors = Record<string, string>;
+
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+
+export const createComputedField = (kind: ComputedFieldKind = 'template'): ComputedField => ({
+  id: `computed-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  field: '',
+  kind,
+  expression: '',
+});
+
+export const toPlaceholder = (columnName: string) => `{${columnName}}`;
+
+// Column names referenced by a template, in order of appearance
+export const getTemplateColumns = (template: string): string[] =>
+  Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+
+export const renameTemplateColumn = (template: string, oldName: string, newName: string): string =>
+  template.split(toPlaceholder(oldName)).join(toPlaceholder(newName));
+
+/**
+ * The value of a computed field for one row. Placeholders take the column's
+ * transformed value; runs of spaces left by empty columns are collapsed.
+ */
+export const renderComputedField = (row: CSVData, computed: ComputedField, mappings: ColumnMapping[]): string => {
+  if (computed.kind === 'constant') return computed.expression;
+
+  const mappingsByName = new Map(mappings.map(mapping => [mapping.originalName, mapping]));
+  return computed.expression
+    .replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+      const mapping = mappingsByName.get(name);
+      const value = mapping ? getMappedValue(row, mapping) : '';
+      return value === null || value === undefined ? '' : String(value);
+    })
+    .replace(/ {2,}/g, ' ')
+    .trim();
+};
+
+/**
+ * Checks each computed field against the entity schema, the other mappings
+ * and the file's columns. Fields with an entry must not be uploaded.
+ */
+export const validateComputedFields = (
+  computedFields: ComputedField[],
+  mappings: ColumnMapping[],
+  entity: EntitySchema
+): ComputedFieldErrors => {
+  const fieldNames = getFieldNames(entity);
+  const columnNames = new Set(mappings.map(mapping => mapping.originalName));
+  const fieldUsage = new Map<string, number>();
+  [
+    ...mappings.filter(isFieldMapping).map(mapping => mapping.mappedName),
+    ...computedFields.map(computed => computed.field),
+  ].forEach(field => fieldUsage.set(field, (fieldUsage.get(field) || 0) + 1));
+
+  const errors: ComputedFieldErrors = {};
+  computedFields.forEach(computed => {
+    const unknownColumns = getTemplateColumns(computed.expression).filter(name => !columnNames.has(name));
+
+    if (!computed.field) {
+      errors[computed.id] = 'Please select a field';
+    } else if (!fieldNames.includes(computed.field)) {
+      errors[computed.id] = `"${computed.field}" is not a valid ${entity.dtoName} field`;
+    } else if ((fieldUsage.get(computed.field) || 0) > 1) {
+      errors[computed.id] = `"${computed.field}" is already mapped. Each DTO field can only be mapped once.`;
+    } else if (computed.kind === 'template' && getTemplateColumns(computed.expression).length === 0) {
+      errors[computed.id] = 'Add at least one {column} to the template';
+    } else if (computed.kind === 'template' && unknownColumns.length > 0) {
+      errors[computed.id] = `Unknown columns: ${unknownColumns.join(', ')}`;
+    }
+  });
+  return errors;
+};
@@ -0,0 +1,116 @@
+import Papa from 'papaparse';
+
+// Enough of the file to sniff settings and fill the preview without reading it all
+const SAMPLE_BYTES = 64 * 1024;
+const SAMPLE_ROW_COUNT = 30;
+
+export interface CsvParseOptions {
+  delimiter: string;
+  quoteChar: string;
+  encoding: string;
+  // Index among the non-blank rows of the file
+  headerRowIndex: number;
+}
+
+export interface CsvDetection {
+  options: CsvParseOptions;
+  hasBom: boolean;
+  sample: Uint8Array;
+}
+
+export const DELIMITER_OPTIONS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export const QUOTE_OPTIONS = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+];
+
+export const ENCODING_OPTIONS = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western European)' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+const BOMS: { encoding: string; bytes: number[] }[] = [
+  { encoding: 'utf-8', bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: 'utf-16le', bytes: [0xff, 0xfe] },
+  { encoding: 'utf-16be', bytes: [0xfe, 0xff] },
+];
+
+export const readSample = async (file: File): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+
+// A BOM is authoritative; otherwise anything that isn't valid UTF-8 is assumed
+// to be Windows-1252, which is what Excel writes on Western European systems
+export const detectEncoding = (sample: Uint8Array): { encoding: string; hasBom: boolean } => {
+  const bom = BOMS.find(({ bytes }) => bytes.every((byte, index) => sample[index] === byte));
+  if (bom) return { encoding: bom.encoding, hasBom: true };
+
+  try {
+    // The sample may end mid-character, so a truncated final sequence is ignored
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return { encoding: 'utf-8', hasBom: false };
+  } catch {
+    return { encoding: 'windows-1252', hasBom: false };
+  }
+};
+
+export const decodeSample = (sample: Uint8Array, encoding: string): string =>
+  new TextDecoder(encoding).decode(sample);
+
+const isBlankRow = (row: string[]) => !row.some(cell => cell.trim() !== '');
+
+export const parseSampleRows = (text: string, options: Pick<CsvParseOptions, 'delimiter' | 'quoteChar'>): string[][] => {
+  const { data } = Papa.parse<string[]>(text, {
+    delimiter: options.delimiter,
+    quoteChar: options.quoteChar,
+    preview: SAMPLE_ROW_COUNT,
+  });
+  return data.filter(row => !isBlankRow(row));
+};
+
+// Single quotes only win when several fields are wrapped in them and none in double quotes
+const detectQuoteChar = (text: string, delimiter: string): string => {
+  const escaped = delimiter.replace(/[|\\]/g, '\\$&');
+  const wraps = (quote: string) =>
+    (text.match(new RegExp(`(^|${escaped})${quote}[^${quote}\\n]*${quote}(?=${escaped}|\\r?$)`, 'gm')) || []).length;
+  return wraps("'") >= 2 && wraps('"') === 0 ? "'" : '"';
+};
+
+// Title lines above the real header have fewer filled cells than the data, so
+// the header is the first row as wide as the most common row width
+export const detectHeaderRow = (rows: string[][]): number => {
+  const widths = rows.map(row => row.filter(cell => cell.trim() !== '').length);
+  const frequency = new Map<number, number>();
+  widths.forEach(width => frequency.set(width, (frequency.get(width) || 0) + 1));
+  const [commonWidth] = Array.from(frequency.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] || [0];
+  const headerRow = widths.findIndex(width => width >= commonWidth);
+  return Math.max(headerRow, 0);
+};
+
+export const detectCsvOptions = async (file: File): Promise<CsvDetection> => {
+  const sample = await readSample(file);
+  const { encoding, hasBom } = detectEncoding(sample);
+  const text = decodeSample(sample, encoding);
+
+  const { meta } = Papa.parse<string[]>(text, {
+    preview: SAMPLE_ROW_COUNT,
+    delimitersToGuess: DELIMITER_OPTIONS.map(option => option.value),
+  });
+  const delimiter = meta.delimiter || ',';
+  const quoteChar = detectQuoteChar(text, delimiter);
+  const headerRowIndex = detectHeaderRow(parseSampleRows(text, { delimiter, quoteChar }));
+
+  return {
+    options: { delimiter, quoteChar, encoding, headerRowIndex },
+    hasBom,
+    sample,
+  };
+};
@@ -0,0 +1,97 @@
+import { type CSVData } from '../types/import';
+import { type ParseIssue } from './parseIssues';
+import { type CsvParseOptions } from './csvDetection';
+
+// The file is read in slices of this many bytes; the records in each slice are posted back as one message
+export const CSV_CHUNK_SIZE = 1024 * 1024 * 2;
+export const PREVIEW_ROW_COUNT = 100;
+
+/**
+ * Collects decoded text and hands back only complete records. Quotes are read
+ * the way Papa reads them: a quote opens a quoted field only at the start of
+ * a field, and inside one a doubled quote is an escaped quote. A line break
+ * ("\n", "\r\n" or a lone "\r") outside quotes ends a record.
+ */
+export const createRecordSplitter = (delimiter: string, quoteChar: string) => {
+  let pending = '';
+  // Characters of pending already scanned; the state below is as of that point
+  let scanned = 0;
+  let inQuotes = false;
+  let atFieldStart = true;
+
+  return {
+    push: (text: string): string => {
+      pending += text;
+      let boundary = -1;
+      let i = scanned;
+      for (; i < pending.length; i++) {
+        const char = pending[i];
+        if (inQuotes) {
+          if (char !== quoteChar) continue;
+          // A quote at the end could still be the first half of ""
+          if (i + 1 === pending.length) break;
+          if (pending[i + 1] === quoteChar) {
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else if (char === quoteChar && atFieldStart) {
+          inQuotes = true;
+          atFieldStart = false;
+        } else if (char === '\n' || char === '\r') {
+          // A "\r" at the end could still be followed by "\n"
+          if (char === '\r' && i + 1 === pending.length) break;
+          if (char === '\r' && pending[i + 1] === '\n') i++;
+          boundary = i + 1;
+          atFieldStart = true;
+        } else {
+          atFieldStart = char === delimiter;
+        }
+      }
+      scanned = i;
+      if (boundary === -1) return '';
+
+      const complete = pending.slice(0, boundary);
+      pending = pending.slice(boundary);
+      scanned -= boundary;
+      return complete;
+    },
+    flush: (): string => {
+      const rest = pending;
+      pending = '';
+      scanned = 0;
+      inQuotes = false;
+      atFieldStart = true;
+      return rest;
+    },
+  };
+};
+
+export interface CsvParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowCount: number;
+}
+
+export interface CsvParseRequest {
+  file: File;
+  options: CsvParseOptions;
+}
+
+export type CsvParseMessage =
+  | { type: 'headers'; headers: string[] }
+  | { type: 'rows'; rows: CSVData[]; issues: ParseIssue[]; progress: CsvParseProgress }
+  | { type: 'complete'; progress: CsvParseProgress }
+  | { type: 'error'; message: string };
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: CSVData[];
+  issues: ParseIssue[];
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
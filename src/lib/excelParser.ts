@@ -0,0 +1,29 @@
+import * as XLSX from 'xlsx';
+
+export const EXCEL_EXTENSIONS = ['.xlsx', '.xls'];
+
+export const isExcelFile = (file: File): boolean => {
+  const name = file.name.toLowerCase();
+  return EXCEL_EXTENSIONS.some(ext => name.endsWith(ext));
+};
+
+export const readWorkbook = async (file: File): Promise<XLSX.WorkBook> => {
+  const buffer = await file.arrayBuffer();
+  return XLSX.read(buffer, { type: 'array', cellDates: true });
+};
+
+// Returns every row of the sheet as strings, using the formatted cell text
+// so dates and numbers look the same as they do in Excel.
+export const sheetToRows = (workbook: XLSX.WorkBook, sheetName: string): string[][] => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) return [];
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: false,
+  });
+
+  return rows.map(row => row.map(cell => (cell === null || cell === undefined ? '' : String(cell))));
+};
@@ -0,0 +1,174 @@
+export type FeedFormat = 'json' | 'ndjson' | 'xml';
+
+export interface RecordPathCandidate {
+  // Dotted path to an array of records, or to a single record; empty for the top level
+  path: string;
+  count: number;
+}
+
+export interface FlattenedRecords {
+  headers: string[];
+  rows: string[][];
+}
+
+export const FEED_EXTENSIONS = ['.json', '.ndjson', '.jsonl', '.xml'];
+
+const FORMAT_BY_EXTENSION: Record<string, FeedFormat> = {
+  '.json': 'json',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+  '.xml': 'xml',
+};
+
+// Nested arrays of records deeper than this are not offered as record paths
+const MAX_PATH_DEPTH = 6;
+
+export const getFeedFormat = (file: File): FeedFormat | null => {
+  const name = file.name.toLowerCase();
+  const extension = FEED_EXTENSIONS.find(ext => name.endsWith(ext));
+  return extension ? FORMAT_BY_EXTENSION[extension] : null;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseNdjson = (text: string): unknown[] =>
+  text.split(/\r?\n/).flatMap((line, index) => {
+    if (line.trim() === '') return [];
+    try {
+      return [JSON.parse(line)];
+    } catch (error) {
+      throw new Error(`Line ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+
+// Attributes become "@name" keys, repeated child elements become arrays and
+// text-only elements become plain strings
+const xmlElementToValue = (element: Element): unknown => {
+  const children = Array.from(element.children);
+  const attributes = Array.from(element.attributes);
+  const text = element.textContent?.trim() ?? '';
+
+  if (children.length === 0 && attributes.length === 0) return text;
+
+  const value: Record<string, unknown> = {};
+  attributes.forEach(attribute => {
+    value[`@${attribute.name}`] = attribute.value;
+  });
+  children.forEach(child => {
+    const childValue = xmlElementToValue(child);
+    const existing = value[child.tagName];
+    if (existing === undefined) {
+      value[child.tagName] = childValue;
+    } else {
+      value[child.tagName] = Array.isArray(existing) ? [...existing, childValue] : [existing, childValue];
+    }
+  });
+  if (children.length === 0 && text) {
+    value['#text'] = text;
+  }
+  return value;
+};
+
+const parseXml = (text: string): unknown => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const parserError = doc.querySelector('parsererror');
+  if (parserError) {
+    throw new Error(parserError.textContent?.trim() || 'Invalid XML');
+  }
+  const root = doc.documentElement;
+  return { [root.tagName]: xmlElementToValue(root) };
+};
+
+export const parseFeedDocument = (text: string, format: FeedFormat): unknown => {
+  switch (format) {
+    case 'json':
+      return JSON.parse(text);
+    case 'ndjson':
+      return parseNdjson(text);
+    case 'xml':
+      return parseXml(text);
+  }
+};
+
+const isRecordArray = (value: unknown): value is unknown[] =>
+  Array.isArray(value) && value.length > 0 && value.some(isPlainObject);
+
+// A lone object with field values is a feed of one record; XML only turns
+// repeated elements into arrays, so a single <product> arrives this way.
+// Attributes alone don't count, so wrapper elements aren't offered
+const isSingleRecord = (value: unknown): value is Record<string, unknown> =>
+  isPlainObject(value)
+  && Object.entries(value).some(([key, child]) =>
+    !key.startsWith('@') && !isPlainObject(child) && !Array.isArray(child));
+
+/**
+ * Lists every array of objects in the document that could hold the records,
+ * largest first, followed by single objects that look like one record.
+ */
+export const findRecordPaths = (document: unknown): RecordPathCandidate[] => {
+  const candidates: Array<RecordPathCandidate & { single: boolean }> = [];
+
+  const visit = (value: unknown, path: string[], insideRecord: boolean) => {
+    if (path.length > MAX_PATH_DEPTH) return;
+    if (isRecordArray(value)) {
+      candidates.push({ path: path.join('.'), count: value.length, single: false });
+      return;
+    }
+    if (isPlainObject(value)) {
+      // Nested objects of a record (dimensions, price) become its columns
+      const isRecord = !insideRecord && isSingleRecord(value);
+      if (isRecord) {
+        candidates.push({ path: path.join('.'), count: 1, single: true });
+      }
+      Object.entries(value).forEach(([key, child]) => visit(child, [...path, key], insideRecord || isRecord));
+    }
+  };
+
+  visit(document, [], false);
+  return candidates
+    .sort((a, b) => b.count - a.count || Number(a.single) - Number(b.single))
+    .map(({ path, count }) => ({ path, count }));
+};
+
+export const getRecordsAtPath = (document: unknown, path: string): unknown[] => {
+  const value = path === ''
+    ? document
+    : path.split('.').reduce<unknown>((current, key) => (isPlainObject(current) ? current[key] : undefined), document);
+  if (isPlainObject(value)) return [value];
+  return Array.isArray(value) ? value : [];
+};
+
+// Nested objects become dotted paths (dimensions.weight); arrays of plain
+// values are joined, arrays of objects are indexed (images.0.url)
+const flattenValue = (value: unknown, path: string, out: Record<string, string>) => {
+  if (Array.isArray(value)) {
+    if (value.every(item => !isPlainObject(item) && !Array.isArray(item))) {
+      out[path] = value.map(item => (item === null || item === undefined ? '' : String(item))).join(', ');
+    } else {
+      value.forEach((item, index) => flattenValue(item, `${path}.${index}`, out));
+    }
+  } else if (isPlainObject(value)) {
+    Object.entries(value).forEach(([key, child]) => flattenValue(child, path ? `${path}.${key}` : key, out));
+  } else {
+    out[path || 'value'] = value === null || value === undefined ? '' : String(value);
+  }
+};
+
+// Columns are the union of every record's paths, in the order first seen
+export const flattenRecords = (records: unknown[]): FlattenedRecords => {
+  const flattened = records.map(record => {
+    const out: Record<string, string> = {};
+    flattenValue(record, '', out);
+    return out;
+  });
+
+  const headerSet = new Set<string>();
+  flattened.forEach(record => Object.keys(record).forEach(key => headerSet.add(key)));
+  const headers = Array.from(headerSet);
+
+  return {
+    headers,
+    rows: flattened.map(record => headers.map(header => record[header] ?? '')),
+  };
+};
@@ -0,0 +1,112 @@
+import { type CSVData } from '../types/import';
+
+export type ImportMode = 'insert' | 'update' | 'upsert';
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'skip';
+
+export interface PlannedRecord {
+  action: ImportAction;
+  // Index of the source row (and of the record passed to buildImportPlan)
+  index: number;
+  key: string;
+  record: CSVData;
+  existing?: CSVData;
+  reason?: string;
+}
+
+export interface ImportPlan {
+  records: PlannedRecord[];
+  counts: Record<ImportAction, number>;
+}
+
+export const IMPORT_MODE_LABELS: Record<ImportMode, string> = {
+  insert: 'Insert only',
+  update: 'Update only',
+  upsert: 'Upsert (insert or update)',
+};
+
+// Returns null when any key field is blank, since such rows can't be matched
+export const buildNaturalKey = (record: CSVData, keyFields: string[]): string | null => {
+  const parts = keyFields.map(field => {
+    const value = record[field];
+    return value === null || value === undefined ? '' : String(value).trim();
+  });
+  return parts.some(part => part === '') ? null : JSON.stringify(parts);
+};
+
+// Compares with object keys sorted so metaData key order doesn't matter
+const stableStringify = (value: unknown): string => {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const entries = Object.keys(value as CSVData)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as CSVData)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const isSameValue = (a: unknown, b: unknown): boolean => stableStringify(a) === stableStringify(b);
+
+// Only the fields present in the incoming record are compared
+const hasChanges = (incoming: CSVData, existing: CSVData): boolean =>
+  Object.keys(incoming).some(field => !isSameValue(incoming[field], existing[field]));
+
+/**
+ * Decides what happens to each incoming record: matched against existing
+ * records by natural key, then created, updated, left unchanged or skipped
+ * depending on the import mode. Excluded rows (e.g. rows with validation
+ * errors) are always skipped.
+ */
+export const buildImportPlan = (
+  incoming: CSVData[],
+  existing: CSVData[],
+  keyFields: string[],
+  mode: ImportMode,
+  excludedIndexes: Set<number> = new Set()
+): ImportPlan => {
+  const existingByKey = new Map<string, CSVData>();
+  existing.forEach(record => {
+    const key = buildNaturalKey(record, keyFields);
+    if (key !== null && !existingByKey.has(key)) {
+      existingByKey.set(key, record);
+    }
+  });
+
+  const seenKeys = new Set<string>();
+  const records = incoming.map((record, index): PlannedRecord => {
+    if (excludedIndexes.has(index)) {
+      return { action: 'skip', index, key: '', record, reason: 'Excluded because it has invalid values' };
+    }
+
+    const key = buildNaturalKey(record, keyFields);
+    if (key === null) {
+      return { action: 'skip', index, key: '', record, reason: `Missing value for ${keyFields.join(' + ')}` };
+    }
+    if (seenKeys.has(key)) {
+      return { action: 'skip', index, key, record, reason: 'Duplicate key earlier in this file' };
+    }
+    seenKeys.add(key);
+
+    const match = existingByKey.get(key);
+    if (match) {
+      if (mode === 'insert') {
+        return { action: 'skip', index, key, record, existing: match, reason: 'Already exists (insert only)' };
+      }
+      return hasChanges(record, match)
+        ? { action: 'update', index, key, record, existing: match }
+        : { action: 'unchanged', index, key, record, existing: match };
+    }
+
+    if (mode === 'update') {
+      return { action: 'skip', index, key, record, reason: 'No existing record to update (update only)' };
+    }
+    return { action: 'create', index, key, record };
+  });
+
+  const counts: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, skip: 0 };
+  records.forEach(planned => {
+    counts[planned.action]++;
+  });
+
+  return { records, counts };
+};
@@ -0,0 +1,31 @@
+export type ImportStepId = 'upload' | 'parse' | 'map' | 'review' | 'confirm' | 'result';
+
+export interface ImportStep {
+  id: ImportStepId;
+  label: string;
+}
+
+export const IMPORT_STEPS: ImportStep[] = [
+  { id: 'upload', label: 'Upload' },
+  { id: 'parse', label: 'Configure parse' },
+  { id: 'map', label: 'Map' },
+  { id: 'review', label: 'Review' },
+  { id: 'confirm', label: 'Confirm' },
+  { id: 'result', label: 'Result' },
+];
+
+// Why each step can't be left yet; null once it is complete
+export type StepBlockers = Record<ImportStepId, string | null>;
+
+export const IMPORT_BASE_PATH = '/import';
+
+export const importStepPath = (step: ImportStepId) => `${IMPORT_BASE_PATH}/${step}`;
+
+export const findImportStep = (id: string | undefined): ImportStep | undefined =>
+  IMPORT_STEPS.find(step => step.id === id);
+
+// The furthest step that can be opened: every step before it must be complete
+export const getReachableStepIndex = (blockers: StepBlockers): number => {
+  const blockedIndex = IMPORT_STEPS.findIndex(step => blockers[step.id]);
+  return blockedIndex === -1 ? IMPORT_STEPS.length - 1 : blockedIndex;
+};
@@ -0,0 +1,196 @@
+import { z } from 'zod';
+import { type ColumnMapping, type ComputedField, type SourceColumn } from '../types/import';
+import { type TransformStep } from './transforms';
+import { type ValueMap } from './valueMaps';
+import { splitColumnId, type SplitMode } from './splitColumn';
+import { IGNORE_MAPPING, type MetaDataType } from './metaData';
+import { createComputedField } from './computedFields';
+
+export const MAPPING_FILE_FORMAT = 'catalog-mapper/mapping';
+export const MAPPING_FILE_VERSION = 1;
+
+/**
+ * One column of the file, by header. target is a DTO field, "metaData" or
+ * "ignore". Outputs of a split column name the column they are read from.
+ */
+export interface MappingFileColumn {
+  column: string;
+  target: string;
+  transforms?: TransformStep[];
+  // Source value → option of the target field
+  valueMap?: ValueMap;
+  // metaData columns only; the key defaults to the column name
+  metaDataKey?: string;
+  metaDataType?: MetaDataType;
+  split?: {
+    from: string;
+    mode: SplitMode;
+    pattern: string;
+    // Zero-based index of the part
+    part: number;
+  };
+}
+
+/**
+ * Version 1 of the exported mapping, for sharing a mapping outside the app:
+ *
+ *   {
+ *     "format": "catalog-mapper/mapping",
+ *     "version": 1,
+ *     "entityType": "productType",
+ *     "exportedAt": "2024-05-01T12:00:00.000Z",
+ *     "columns": [
+ *       { "column": "Product Name", "target": "productName", "transforms": [{ "type": "trim" }] },
+ *       { "column": "Rayon", "target": "globalProductCategory", "valueMap": { "Vêtements": "Clothing" } },
+ *       { "column": "Weight", "target": "metaData", "metaDataKey": "dimensions.weight", "metaDataType": "number" },
+ *       { "column": "Size", "target": "metaData", "split": { "from": "Size / Fit", "mode": "delimiter", "pattern": "/", "part": 0 } },
+ *       { "column": "Internal ID", "target": "ignore" }
+ *     ],
+ *     "computedFields": [{ "field": "productDescription", "kind": "template", "expression": "{Brand} {Product Name}" }]
+ *   }
+ *
+ * Columns are listed in the order of the file, each split output after the
+ * column it is read from.
+ */
+export interface MappingFile {
+  format: typeof MAPPING_FILE_FORMAT;
+  version: typeof MAPPING_FILE_VERSION;
+  entityType: string;
+  exportedAt: string;
+  columns: MappingFileColumn[];
+  computedFields: Omit<ComputedField, 'id'>[];
+}
+
+const transformStepSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('trim') }),
+  z.object({ type: z.literal('case'), mode: z.enum(['upper', 'lower', 'title']) }),
+  z.object({ type: z.literal('replace'), pattern: z.string(), replacement: z.string(), ignoreCase: z.boolean() }),
+  z.object({ type: z.literal('affix'), prefix: z.string(), suffix: z.string() }),
+  z.object({ type: z.literal('number'), decimalSeparator: z.enum(['.', ',']) }),
+  z.object({ type: z.literal('defaultValue'), value: z.string() }),
+  z.object({ type: z.literal('date'), order: z.enum(['DMY', 'MDY', 'YMD']) }),
+]);
+
+const mappingFileSchema = z.object({
+  format: z.literal(MAPPING_FILE_FORMAT, { errorMap: () => ({ message: 'Not a mapping file' }) }),
+  version: z.literal(MAPPING_FILE_VERSION, {
+    errorMap: () => ({ message: `Unsupported version; this app reads version ${MAPPING_FILE_VERSION}` }),
+  }),
+  entityType: z.string(),
+  exportedAt: z.string(),
+  columns: z.array(z.object({
+    column: z.string().min(1),
+    target: z.string().min(1),
+    transforms: z.array(transformStepSchema).optional(),
+    valueMap: z.record(z.string()).optional(),
+    metaDataKey: z.string().optional(),
+    metaDataType: z.enum(['string', 'number', 'boolean', 'date', 'json']).optional(),
+    split: z.object({
+      from: z.string().min(1),
+      mode: z.enum(['delimiter', 'regex']),
+      pattern: z.string(),
+      part: z.number().int().nonnegative(),
+    }).optional(),
+  })),
+  computedFields: z.array(z.object({
+    field: z.string(),
+    kind: z.enum(['template', 'constant']),
+    expression: z.string(),
+  })).default([]),
+});
+
+export const createMappingFile = (
+  mappings: ColumnMapping[],
+  computedFields: ComputedField[],
+  entityType: string
+): MappingFile => {
+  const namesById = new Map(mappings.map(mapping => [mapping.columnId, mapping.originalName]));
+  return {
+    format: MAPPING_FILE_FORMAT,
+    version: MAPPING_FILE_VERSION,
+    entityType,
+    exportedAt: new Date().toISOString(),
+    columns: mappings.map(mapping => ({
+      column: mapping.originalName,
+      target: mapping.mappedName,
+      transforms: mapping.transforms?.length ? mapping.transforms : undefined,
+      valueMap: mapping.valueMap && Object.keys(mapping.valueMap).length > 0 ? mapping.valueMap : undefined,
+      metaDataKey: mapping.isMetadata ? mapping.metaDataKey : undefined,
+      metaDataType: mapping.isMetadata ? mapping.metaDataType : undefined,
+      split: mapping.split && {
+        from: namesById.get(mapping.split.columnId),
+        mode: mapping.split.mode,
+        pattern: mapping.split.pattern,
+        part: mapping.split.part,
+      },
+    })),
+    computedFields: computedFields.map(({ field, kind, expression }) => ({ field, kind, expression })),
+  };
+};
+
+/**
+ * Reads an exported mapping. Throws with the first problem found when the text
+ * isn't JSON, isn't a mapping file or was written by an unsupported version.
+ */
+export const parseMappingFile = (text: string): MappingFile => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${(error as Error).message}`);
+  }
+
+  const result = mappingFileSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+  }
+  return result.data as MappingFile;
+};
+
+// Headers the mapping needs that the file doesn't have, split sources included
+export const findMissingColumns = (file: MappingFile, columns: SourceColumn[]): string[] => {
+  const headers = new Set(columns.map(column => column.name));
+  const referenced = file.columns.map(entry => entry.split?.from ?? entry.column);
+  return Array.from(new Set(referenced.filter(name => !headers.has(name))));
+};
+
+/**
+ * Builds the column mappings and computed fields for the current file. Columns
+ * the mapping doesn't mention go to metaData; call findMissingColumns first.
+ */
+export const applyMappingFile = (
+  file: MappingFile,
+  columns: SourceColumn[]
+): { mappings: ColumnMapping[]; computedFields: ComputedField[] } => {
+  const toMapping = (entry: MappingFileColumn, columnId: string): ColumnMapping => ({
+    columnId,
+    originalName: entry.column,
+    mappedName: entry.target,
+    isValid: true,
+    isMetadata: entry.target === 'metaData',
+    transforms: entry.transforms,
+    valueMap: entry.target === 'metaData' || entry.target === IGNORE_MAPPING ? undefined : entry.valueMap,
+    metaDataKey: entry.target === 'metaData' ? entry.metaDataKey : undefined,
+    metaDataType: entry.target === 'metaData' ? entry.metaDataType : undefined,
+  });
+
+  const mappings = columns.flatMap(column => {
+    const entry = file.columns.find(candidate => !candidate.split && candidate.column === column.name);
+    const outputs = file.columns
+      .filter(candidate => candidate.split?.from === column.name)
+      .map(output => ({
+        ...toMapping(output, splitColumnId(column.id, output.split.part)),
+        split: { mode: output.split.mode, pattern: output.split.pattern, columnId: column.id, part: output.split.part },
+      }));
+    return [
+      entry ? toMapping(entry, column.id) : toMapping({ column: column.name, target: 'metaData' }, column.id),
+      ...outputs,
+    ];
+  });
+
+  return {
+    mappings,
+    computedFields: file.computedFields.map(computed => ({ ...createComputedField(computed.kind), ...computed })),
+  };
+};
@@ -0,0 +1,84 @@
+import { DEFAULT_ENTITY_ID } from '../schemas';
+import { type ValueMap } from './valueMaps';
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  // Target entity schema id; profiles saved before entity types existed are product profiles
+  entityType?: string;
+  // Original header → mapped field ('metaData' for metadata columns, 'ignore' for dropped ones)
+  mappings: Record<string, string>;
+  // Mapped field → lookup from source values to that field's options
+  valueMaps?: Record<string, ValueMap>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProfileMatch {
+  profile: MappingProfile;
+  addedHeaders: string[];
+  missingHeaders: string[];
+}
+
+const STORAGE_KEY = 'catalogMapper.mappingProfiles';
+
+// A file matches a profile when at least this share of the combined headers is shared
+const PROFILE_MATCH_THRESHOLD = 0.5;
+
+export const loadProfiles = (): MappingProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to load mapping profiles:', error);
+    return [];
+  }
+};
+
+export const storeProfiles = (profiles: MappingProfile[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to save mapping profiles:', error);
+  }
+};
+
+export const compareHeaders = (profile: MappingProfile, headers: string[]) => {
+  const profileHeaders = Object.keys(profile.mappings);
+  return {
+    addedHeaders: headers.filter(header => !(header in profile.mappings)),
+    missingHeaders: profileHeaders.filter(header => !headers.includes(header)),
+  };
+};
+
+export const isProfileForEntity = (profile: MappingProfile, entityType: string): boolean =>
+  (profile.entityType || DEFAULT_ENTITY_ID) === entityType;
+
+/**
+ * Finds the stored profile for the entity type whose headers overlap most
+ * with the uploaded file. Returns null when no profile shares enough headers
+ * to be a plausible match.
+ */
+export const findMatchingProfile = (
+  profiles: MappingProfile[],
+  headers: string[],
+  entityType: string
+): ProfileMatch | null => {
+  let bestMatch: ProfileMatch | null = null;
+  let bestScore = 0;
+
+  for (const profile of profiles.filter(p => isProfileForEntity(p, entityType))) {
+    const { addedHeaders, missingHeaders } = compareHeaders(profile, headers);
+    const sharedCount = headers.length - addedHeaders.length;
+    const unionCount = headers.length + missingHeaders.length;
+    const score = unionCount > 0 ? sharedCount / unionCount : 0;
+
+    if (score >= PROFILE_MATCH_THRESHOLD && score > bestScore) {
+      bestScore = score;
+      bestMatch = { profile, addedHeaders, missingHeaders };
+    }
+  }
+
+  return bestMatch;
+};
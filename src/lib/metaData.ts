@@ -0,0 +1,110 @@
+import { type CSVData, type ColumnMapping } from '../types/import';
+import { getMappedValue } from './transforms';
+
+export type MetaDataType = 'string' | 'number' | 'boolean' | 'date' | 'json';
+
+// Mapping target for columns that are dropped from the upload
+export const IGNORE_MAPPING = 'ignore';
+
+export const METADATA_TYPE_LABELS: Record<MetaDataType, string> = {
+  string: 'Text',
+  number: 'Number',
+  boolean: 'Yes / No',
+  date: 'Date',
+  json: 'JSON',
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'on'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'off'];
+// Segments that would reach into an object's prototype instead of a key of its own
+const RESERVED_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+// Mapped to a DTO field, rather than stored in metaData or ignored
+export const isFieldMapping = (mapping: ColumnMapping): boolean =>
+  !mapping.isMetadata && mapping.mappedName !== IGNORE_MAPPING;
+
+// Defaults to the column name; dots nest the value (dimensions.weight)
+export const getMetaDataKey = (mapping: ColumnMapping): string =>
+  (mapping.metaDataKey ?? mapping.originalName).trim();
+
+/**
+ * Checks a metaData key against the other metaData keys of the mapping. A key
+ * can't repeat another, and can't be both a value and a parent of nested keys.
+ */
+export const validateMetaDataKey = (key: string, otherKeys: string[]): string | null => {
+  if (key === '') return 'metaData key cannot be empty';
+  const segments = key.split('.').map(segment => segment.trim());
+  if (segments.some(segment => segment === '')) return `"${key}" has an empty path segment`;
+  const reserved = segments.find(segment => RESERVED_SEGMENTS.includes(segment));
+  if (reserved) return `"${reserved}" can't be used in a metaData key`;
+
+  const conflict = otherKeys.find(other =>
+    other === key || other.startsWith(`${key}.`) || key.startsWith(`${other}.`)
+  );
+  if (!conflict) return null;
+  return conflict === key
+    ? `Another column is stored under metaData key "${key}"`
+    : `metaData key "${key}" conflicts with "${conflict}"`;
+};
+
+export interface ConvertedValue {
+  value: unknown;
+  error?: string;
+}
+
+// Empty cells become '' for text and null for every other type
+export const convertMetaDataValue = (raw: unknown, type: MetaDataType = 'string'): ConvertedValue => {
+  const text = raw === null || raw === undefined ? '' : String(raw).trim();
+  if (type === 'string') return { value: text };
+  if (text === '') return { value: null };
+
+  switch (type) {
+    case 'number': {
+      const number = Number(text);
+      return Number.isNaN(number) ? { value: text, error: `"${text}" is not a number` } : { value: number };
+    }
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: true };
+      if (FALSE_VALUES.includes(lower)) return { value: false };
+      return { value: text, error: `"${text}" is not yes or no` };
+    }
+    case 'date': {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return { value: text };
+      const time = Date.parse(text);
+      return Number.isNaN(time) ? { value: text, error: `"${text}" is not a date` } : { value: new Date(time).toISOString() };
+    }
+    case 'json':
+      try {
+        return { value: JSON.parse(text) };
+      } catch {
+        return { value: text, error: `"${text}" is not valid JSON` };
+      }
+  }
+};
+
+// Nodes have no prototype, so keys from file headers can never reach Object.prototype
+const setPath = (target: CSVData, key: string, value: unknown) => {
+  const segments = key.split('.').map(segment => segment.trim());
+  const leaf = segments.pop();
+  const parent = segments.reduce<CSVData>((node, segment) => {
+    const child = Object.prototype.hasOwnProperty.call(node, segment) ? node[segment] : undefined;
+    if (typeof child !== 'object' || child === null) {
+      node[segment] = Object.create(null);
+    }
+    return node[segment];
+  }, target);
+  parent[leaf] = value;
+};
+
+// The metaData object for one row; values that fail conversion are kept as text
+export const buildMetaData = (row: CSVData, mappings: ColumnMapping[]): CSVData => {
+  const metaData: CSVData = Object.create(null);
+  mappings
+    .filter(mapping => mapping.isMetadata)
+    .forEach(mapping => {
+      const { value } = convertMetaDataValue(getMappedValue(row, mapping), mapping.metaDataType);
+      setPath(metaData, getMetaDataKey(mapping), value);
+    });
+  return metaData;
+};
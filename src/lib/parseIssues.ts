@@ -0,0 +1,46 @@
+export type ParseIssueType = 'tooManyFields' | 'tooFewFields' | 'unterminatedQuote' | 'other';
+
+export interface ParseIssue {
+  // Index of the affected row in the loaded data
+  rowIndex: number;
+  type: ParseIssueType;
+  message: string;
+  // The row's text as it appears in the file, quotes included
+  raw: string;
+  // Fields past the last column of a row with too many fields
+  extraFields?: string[];
+}
+
+export const PARSE_ISSUE_LABELS: Record<ParseIssueType, string> = {
+  tooManyFields: 'Too many fields',
+  tooFewFields: 'Too few fields',
+  unterminatedQuote: 'Unterminated quote',
+  other: 'Parse error',
+};
+
+// Maps PapaParse error codes onto the issue types shown to the user
+export const toParseIssueType = (code: string): ParseIssueType => {
+  switch (code) {
+    case 'TooManyFields':
+      return 'tooManyFields';
+    case 'TooFewFields':
+      return 'tooFewFields';
+    case 'MissingQuotes':
+    case 'InvalidQuotes':
+      return 'unterminatedQuote';
+    default:
+      return 'other';
+  }
+};
+
+/**
+ * Keeps the issues of retained rows and renumbers them to match the data after
+ * rows were removed. keptIndexes are the old indexes of the rows that remain,
+ * in order.
+ */
+export const retainIssueRows = (issues: ParseIssue[], keptIndexes: number[]): ParseIssue[] => {
+  const newIndexes = new Map(keptIndexes.map((oldIndex, newIndex) => [oldIndex, newIndex]));
+  return issues
+    .filter(issue => newIndexes.has(issue.rowIndex))
+    .map(issue => ({ ...issue, rowIndex: newIndexes.get(issue.rowIndex) }));
+};
@@ -0,0 +1,38 @@
+export interface PayloadLine {
+  text: string;
+  // Path of the key opened or set on this line (metaData.dimensions.weight); null for braces
+  path: string | null;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const formatEntries = (value: Record<string, unknown>, parentPath: string, depth: number): PayloadLine[] => {
+  const indent = '  '.repeat(depth);
+  const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+
+  return entries.flatMap(([key, entry], index) => {
+    const path = parentPath ? `${parentPath}.${key}` : key;
+    const comma = index < entries.length - 1 ? ',' : '';
+    const label = `${indent}${JSON.stringify(key)}: `;
+
+    if (isPlainObject(entry) && Object.keys(entry).length > 0) {
+      return [
+        { text: `${label}{`, path },
+        ...formatEntries(entry, path, depth + 1),
+        { text: `${indent}}${comma}`, path: null },
+      ];
+    }
+    return [{ text: `${label}${JSON.stringify(entry)}${comma}`, path }];
+  });
+};
+
+/**
+ * Pretty-prints a DTO like JSON.stringify(record, null, 2), one line per key,
+ * so problems can be shown next to the value they belong to.
+ */
+export const formatPayloadLines = (record: Record<string, unknown>): PayloadLine[] => [
+  { text: '{', path: null },
+  ...formatEntries(record, '', 1),
+  { text: '}', path: null },
+];
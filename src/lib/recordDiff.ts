@@ -0,0 +1,78 @@
+import { type CSVData } from '../types/import';
+import { isSameValue } from './importPlan';
+
+export interface FieldChange {
+  // Stable identifier used to accept or reject the change
+  id: string;
+  field: string;
+  // Set when the change is to a single metaData key
+  metaKey?: string;
+  before: unknown;
+  after: unknown;
+}
+
+const metaDataOf = (record: CSVData): CSVData =>
+  record.metaData && typeof record.metaData === 'object' ? record.metaData : {};
+
+/**
+ * Lists every field that differs between an existing record and the incoming
+ * version. metaData is compared key by key, including keys the incoming row
+ * no longer has.
+ */
+export const diffRecords = (existing: CSVData, incoming: CSVData): FieldChange[] => {
+  const changes: FieldChange[] = [];
+
+  Object.keys(incoming).forEach(field => {
+    if (field === 'metaData' || field === 'id') return;
+    if (!isSameValue(existing[field], incoming[field])) {
+      changes.push({ id: field, field, before: existing[field], after: incoming[field] });
+    }
+  });
+
+  if ('metaData' in incoming) {
+    const before = metaDataOf(existing);
+    const after = metaDataOf(incoming);
+    const metaKeys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    metaKeys.forEach(metaKey => {
+      if (!isSameValue(before[metaKey], after[metaKey])) {
+        changes.push({
+          id: `metaData:${metaKey}`,
+          field: 'metaData',
+          metaKey,
+          before: before[metaKey],
+          after: after[metaKey],
+        });
+      }
+    });
+  }
+
+  return changes;
+};
+
+// Rejected ids can outlive their change when the mapping changes, so they are matched by id, not counted
+export const getAcceptedChanges = (changes: FieldChange[], rejectedIds: string[] = []): FieldChange[] =>
+  changes.filter(change => !rejectedIds.includes(change.id));
+
+// Applies only the accepted changes on top of the existing record
+export const applyChanges = (existing: CSVData, changes: FieldChange[], rejectedIds: string[] = []): CSVData => {
+  const result: CSVData = { ...existing };
+  let metaData: CSVData | null = null;
+
+  getAcceptedChanges(changes, rejectedIds).forEach(change => {
+    if (change.metaKey === undefined) {
+      result[change.field] = change.after;
+      return;
+    }
+    metaData = metaData || { ...metaDataOf(existing) };
+    if (change.after === undefined) {
+      delete metaData[change.metaKey];
+    } else {
+      metaData[change.metaKey] = change.after;
+    }
+  });
+
+  if (metaData) {
+    result.metaData = metaData;
+  }
+  return result;
+};
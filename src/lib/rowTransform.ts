@@ -0,0 +1,46 @@
+import { type CSVData, type ColumnMapping, type ComputedField } from '../types/import';
+import { parseFieldValue } from '../schemas/fieldDefinition';
+import { type EntitySchema } from '../schemas';
+import { getMappedValue } from './transforms';
+import { renderComputedField } from './computedFields';
+import { normalizeRecordQuantities } from './units';
+import { buildMetaData, isFieldMapping } from './metaData';
+
+// Builds the DTO for one source row: mapped fields are parsed through the
+// entity schema, computed fields are filled in, quantities are converted to
+// their base unit and metaData columns are typed and nested under metaData.
+// Ignored columns are dropped.
+export const transformRow = (
+  row: CSVData,
+  mappings: ColumnMapping[],
+  entity: EntitySchema,
+  computedFields: ComputedField[] = []
+): CSVData => {
+  const record: CSVData = {};
+
+  mappings.filter(isFieldMapping).forEach(mapping => {
+    record[mapping.mappedName] = parseFieldValue(entity.fields[mapping.mappedName], getMappedValue(row, mapping));
+  });
+
+  computedFields.forEach(computed => {
+    record[computed.field] = parseFieldValue(entity.fields[computed.field], renderComputedField(row, computed, mappings));
+  });
+
+  normalizeRecordQuantities(record, entity.fields);
+
+  // Add metadata container if there are metadata fields
+  const metaData = buildMetaData(row, mappings);
+  if (Object.keys(metaData).length > 0) {
+    record.metaData = metaData;
+  }
+
+  return record;
+};
+
+export const transformRows = (
+  rows: CSVData[],
+  mappings: ColumnMapping[],
+  entity: EntitySchema,
+  computedFields: ComputedField[] = []
+): CSVData[] =>
+  rows.map(row => transformRow(row, mappings, entity, computedFields));
@@ -0,0 +1,114 @@
+import { type CSVData, type ColumnMapping, type ComputedField } from '../types/import';
+import { validateFieldValue, type FieldDefinitions } from '../schemas/fieldDefinition';
+import { getMappedValue } from './transforms';
+import { renderComputedField } from './computedFields';
+import { describeUnmappedValue } from './valueMaps';
+import { describeUnreadableQuantity, parseQuantity } from './units';
+import { convertMetaDataValue, getMetaDataKey, isFieldMapping } from './metaData';
+
+// Source column id (or computed field id) → error message for that cell
+export type RowErrors = Record<string, string>;
+
+export interface ValidationSummary {
+  invalidRowCount: number;
+  invalidCellCount: number;
+}
+
+export const validateCell = (fields: FieldDefinitions, field: string, value: unknown): string | null => {
+  const definition = fields[field];
+  return definition ? validateFieldValue(definition, value) : null;
+};
+
+// Enumerated fields report unmapped values and quantity fields are checked on
+// the number read from text like "250 ml"
+const validateMappedValue = (fields: FieldDefinitions, field: string, value: unknown): string | null => {
+  const definition = fields[field];
+  const quantity = definition?.quantity && typeof value === 'string' ? parseQuantity(value) : null;
+  return describeUnmappedValue(definition, value)
+    || describeUnreadableQuantity(definition, value)
+    || validateCell(fields, field, quantity ? quantity.value : value);
+};
+
+interface RowProblem {
+  // Where the grid shows the problem: the source column (split outputs show on
+  // the column they were split from), or the computed field's id
+  cellKey: string;
+  // Where the value ends up in the DTO; metaData values as metaData.<key>
+  path: string;
+  error: string;
+  // Field mappings are named by their column header; other problems name their path
+  showPath: boolean;
+}
+
+const findRowProblems = (
+  row: CSVData,
+  mappings: ColumnMapping[],
+  fields: FieldDefinitions,
+  computedFields: ComputedField[]
+): RowProblem[] => {
+  const problems: RowProblem[] = [];
+  mappings.filter(mapping => mapping.isValid).forEach(mapping => {
+    const cellKey = mapping.split?.columnId ?? mapping.columnId;
+    if (isFieldMapping(mapping)) {
+      const error = validateMappedValue(fields, mapping.mappedName, getMappedValue(row, mapping));
+      if (error) {
+        problems.push({ cellKey, path: mapping.mappedName, error, showPath: false });
+      }
+    } else if (mapping.isMetadata && mapping.metaDataType) {
+      const { error } = convertMetaDataValue(getMappedValue(row, mapping), mapping.metaDataType);
+      if (error) {
+        problems.push({ cellKey, path: `metaData.${getMetaDataKey(mapping)}`, error, showPath: true });
+      }
+    }
+  });
+  computedFields.forEach(computed => {
+    const error = validateMappedValue(fields, computed.field, renderComputedField(row, computed, mappings));
+    if (error) {
+      problems.push({ cellKey: computed.id, path: computed.field, error, showPath: true });
+    }
+  });
+  return problems;
+};
+
+const addError = (errors: Record<string, string>, key: string, error: string) => {
+  errors[key] = errors[key] ? `${errors[key]}; ${error}` : error;
+};
+
+/**
+ * Validates every cell in a column mapped to a field of the target schema,
+ * metaData columns with a value type, and the value of each computed field.
+ * Returns one entry per row; rows without problems get an empty object.
+ */
+export const validateRows = (
+  rows: CSVData[],
+  mappings: ColumnMapping[],
+  fields: FieldDefinitions,
+  computedFields: ComputedField[] = []
+): RowErrors[] =>
+  rows.map(row => {
+    const errors: RowErrors = {};
+    findRowProblems(row, mappings, fields, computedFields).forEach(({ cellKey, path, error, showPath }) => {
+      addError(errors, cellKey, showPath ? `${path}: ${error}` : error);
+    });
+    return errors;
+  });
+
+// The problems of one row keyed by DTO field path, for showing next to the payload
+export const validatePayload = (
+  row: CSVData,
+  mappings: ColumnMapping[],
+  fields: FieldDefinitions,
+  computedFields: ComputedField[] = []
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  findRowProblems(row, mappings, fields, computedFields).forEach(({ path, error }) => addError(errors, path, error));
+  return errors;
+};
+
+export const hasRowErrors = (errors: RowErrors | undefined): boolean =>
+  !!errors && Object.keys(errors).length > 0;
+
+export const summarizeRowErrors = (rowErrors: RowErrors[]): ValidationSummary => ({
+  invalidRowCount: rowErrors.filter(hasRowErrors).length,
+  invalidCellCount: rowErrors.reduce((count, errors) => count + Object.keys(errors).length, 0),
+});
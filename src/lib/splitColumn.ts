@@ -0,0 +1,74 @@
+import { type CSVData } from '../types/import';
+
+export type SplitMode = 'delimiter' | 'regex';
+
+export interface SplitRule {
+  mode: SplitMode;
+  // The delimiter text, or a regex whose capture groups are the parts
+  pattern: string;
+}
+
+// Where an output of a split column reads its value from
+export interface SplitSource extends SplitRule {
+  columnId: string;
+  part: number;
+}
+
+export interface SplitOutput {
+  part: number;
+  name: string;
+}
+
+// Delimited columns offer at most this many outputs
+export const MAX_SPLIT_PARTS = 10;
+
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  delimiter: 'Delimiter',
+  regex: 'Regex capture groups',
+};
+
+const countCaptureGroups = (pattern: string): number => {
+  try {
+    return new RegExp(`${pattern}|`).exec('').length - 1;
+  } catch {
+    return 0;
+  }
+};
+
+export const validateSplitRule = (rule: SplitRule): string | null => {
+  if (rule.pattern === '') {
+    return rule.mode === 'delimiter' ? 'Enter a delimiter' : 'Enter a pattern';
+  }
+  if (rule.mode === 'delimiter') return null;
+  try {
+    new RegExp(rule.pattern);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  return countCaptureGroups(rule.pattern) === 0 ? 'Add at least one capture group, e.g. (.*) - (.*)' : null;
+};
+
+// Parts are trimmed; a regex that doesn't match yields no parts
+export const splitValue = (value: unknown, rule: SplitRule): string[] => {
+  const text = value === null || value === undefined ? '' : String(value);
+  if (validateSplitRule(rule)) return [text];
+
+  if (rule.mode === 'delimiter') {
+    return text.split(rule.pattern).map(part => part.trim());
+  }
+  const match = new RegExp(rule.pattern).exec(text);
+  return match ? match.slice(1).map(part => (part ?? '').trim()) : [];
+};
+
+// Regexes have one part per capture group; delimited columns as many as the widest sample
+export const countSplitParts = (values: unknown[], rule: SplitRule): number => {
+  if (validateSplitRule(rule)) return 0;
+  if (rule.mode === 'regex') return countCaptureGroups(rule.pattern);
+  const widest = Math.max(1, ...values.map(value => splitValue(value, rule).length));
+  return Math.min(widest, MAX_SPLIT_PARTS);
+};
+
+export const getSplitPart = (row: CSVData, source: SplitSource): string =>
+  splitValue(row[source.columnId], source)[source.part] ?? '';
+
+export const splitColumnId = (columnId: string, part: number) => `${columnId}.${part + 1}`;
@@ -0,0 +1,129 @@
+import { type CSVData, type ColumnMapping } from '../types/import';
+import { lookupValue } from './valueMaps';
+import { getSplitPart } from './splitColumn';
+
+export type CaseMode = 'upper' | 'lower' | 'title';
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+export type TransformStep =
+  | { type: 'trim' }
+  | { type: 'case'; mode: CaseMode }
+  | { type: 'replace'; pattern: string; replacement: string; ignoreCase: boolean }
+  | { type: 'affix'; prefix: string; suffix: string }
+  | { type: 'number'; decimalSeparator: '.' | ',' }
+  | { type: 'defaultValue'; value: string }
+  | { type: 'date'; order: DateOrder };
+
+export type TransformType = TransformStep['type'];
+
+export const TRANSFORM_LABELS: Record<TransformType, string> = {
+  trim: 'Trim whitespace',
+  case: 'Change case',
+  replace: 'Regex replace',
+  affix: 'Add prefix / suffix',
+  number: 'Parse number',
+  defaultValue: 'Default when empty',
+  date: 'Parse date',
+};
+
+export const createTransformStep = (type: TransformType): TransformStep => {
+  switch (type) {
+    case 'trim':
+      return { type };
+    case 'case':
+      return { type, mode: 'upper' };
+    case 'replace':
+      return { type, pattern: '', replacement: '', ignoreCase: false };
+    case 'affix':
+      return { type, prefix: '', suffix: '' };
+    case 'number':
+      return { type, decimalSeparator: '.' };
+    case 'defaultValue':
+      return { type, value: '' };
+    case 'date':
+      return { type, order: 'DMY' };
+  }
+};
+
+// Returns an error message for steps that can't run as configured
+export const validateTransformStep = (step: TransformStep): string | null => {
+  if (step.type !== 'replace') return null;
+  try {
+    new RegExp(step.pattern);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+const toTitleCase = (value: string) =>
+  value.toLowerCase().replace(/(^|[\s\-'])(\p{L})/gu, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+
+// "1.234,56" with a comma separator or "1,234.56" with a dot both become "1234.56";
+// currency symbols and other text are dropped
+const parseLocaleNumber = (value: string, decimalSeparator: '.' | ','): string => {
+  const groupSeparator = decimalSeparator === ',' ? '.' : ',';
+  const cleaned = value
+    .split(groupSeparator).join('')
+    .replace(/[^\d,.-]/g, '')
+    .replace(decimalSeparator, '.');
+  const number = Number(cleaned);
+  return cleaned === '' || Number.isNaN(number) ? value : String(number);
+};
+
+const pad = (part: number) => String(part).padStart(2, '0');
+
+// Dates are normalised to ISO (YYYY-MM-DD); two-digit years are taken as 20xx
+const parseDate = (value: string, order: DateOrder): string => {
+  const parts = value.trim().split(/[./\-\s]+/).map(part => parseInt(part, 10));
+  if (parts.length < 3 || parts.slice(0, 3).some(Number.isNaN)) return value;
+
+  const [a, b, c] = parts;
+  const [year, month, day] =
+    order === 'YMD' ? [a, b, c] : order === 'DMY' ? [c, b, a] : [c, a, b];
+  const fullYear = year < 100 ? 2000 + year : year;
+
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  const isValid = date.getUTCFullYear() === fullYear && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  return isValid ? `${fullYear}-${pad(month)}-${pad(day)}` : value;
+};
+
+export const applyTransform = (value: string, step: TransformStep): string => {
+  switch (step.type) {
+    case 'trim':
+      return value.trim();
+    case 'case':
+      if (step.mode === 'upper') return value.toUpperCase();
+      if (step.mode === 'lower') return value.toLowerCase();
+      return toTitleCase(value);
+    case 'replace':
+      if (!step.pattern || validateTransformStep(step)) return value;
+      return value.replace(new RegExp(step.pattern, step.ignoreCase ? 'gi' : 'g'), step.replacement);
+    case 'affix':
+      return value === '' ? value : `${step.prefix}${value}${step.suffix}`;
+    case 'number':
+      return value.trim() === '' ? value : parseLocaleNumber(value, step.decimalSeparator);
+    case 'defaultValue':
+      return value.trim() === '' ? step.value : value;
+    case 'date':
+      return value.trim() === '' ? value : parseDate(value, step.order);
+  }
+};
+
+export const applyTransforms = (value: unknown, steps: TransformStep[] = []): string =>
+  steps.reduce(
+    (current, step) => applyTransform(current, step),
+    value === null || value === undefined ? '' : String(value)
+  );
+
+// The raw cell value, or the mapping's part of a split column
+export const getSourceValue = (row: CSVData, mapping: ColumnMapping): unknown =>
+  mapping.split ? getSplitPart(row, mapping.split) : row[mapping.columnId];
+
+// The cell value after the mapping's transformations and value lookup; used
+// for validation, the DTO and every preview so they always agree
+export const getMappedValue = (row: CSVData, mapping: ColumnMapping): unknown => {
+  const source = getSourceValue(row, mapping);
+  const value = mapping.transforms?.length ? applyTransforms(source, mapping.transforms) : source;
+  return lookupValue(value, mapping.valueMap);
+};
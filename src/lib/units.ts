@@ -0,0 +1,129 @@
+import { type FieldDefinition, type FieldDefinitions } from '../schemas/fieldDefinition';
+
+export type UnitDimension = 'volume' | 'mass' | 'count';
+
+interface UnitDefinition {
+  code: string;
+  dimension: UnitDimension;
+  // Size of one unit in the dimension's smallest common unit (ml, g, pcs)
+  factor: number;
+  aliases: string[];
+}
+
+export interface Quantity {
+  value: number;
+  unit: string | null;
+}
+
+const UNITS: UnitDefinition[] = [
+  { code: 'ml', dimension: 'volume', factor: 1, aliases: ['milliliter', 'millilitre', 'milliliters', 'millilitres', 'mls'] },
+  { code: 'cl', dimension: 'volume', factor: 10, aliases: ['centiliter', 'centilitre'] },
+  { code: 'dl', dimension: 'volume', factor: 100, aliases: ['deciliter', 'decilitre'] },
+  { code: 'l', dimension: 'volume', factor: 1000, aliases: ['lt', 'ltr', 'liter', 'litre', 'liters', 'litres'] },
+  { code: 'fl oz', dimension: 'volume', factor: 29.5735, aliases: ['floz', 'fl. oz', 'fluid ounce', 'fluid ounces'] },
+  { code: 'gal', dimension: 'volume', factor: 3785.41, aliases: ['gallon', 'gallons'] },
+  { code: 'mg', dimension: 'mass', factor: 0.001, aliases: ['milligram', 'milligrams'] },
+  { code: 'g', dimension: 'mass', factor: 1, aliases: ['gr', 'grs', 'gram', 'grams'] },
+  { code: 'kg', dimension: 'mass', factor: 1000, aliases: ['kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'] },
+  { code: 'oz', dimension: 'mass', factor: 28.3495, aliases: ['ounce', 'ounces'] },
+  { code: 'lb', dimension: 'mass', factor: 453.592, aliases: ['lbs', 'pound', 'pounds'] },
+  { code: 'pcs', dimension: 'count', factor: 1, aliases: ['pc', 'piece', 'pieces', 'ct', 'count', 'ea', 'each', 'units'] },
+];
+
+export const UNIT_CODES = UNITS.map(unit => unit.code);
+
+const DEFAULT_BASE_UNITS: Record<UnitDimension, string> = {
+  volume: 'ml',
+  mass: 'g',
+  count: 'pcs',
+};
+
+const UNITS_BY_ALIAS = new Map(
+  UNITS.flatMap(unit => [unit.code, ...unit.aliases].map(alias => [alias, unit] as const))
+);
+
+// Optional "2x" multipack prefix, a number, then an optional unit
+const QUANTITY_PATTERN = /^(?:(\d+)\s*[x×*]\s*)?(\d[\d.,]*)\s*([a-z][a-z. ]*)?$/;
+
+// A comma before groups of three digits is a thousands separator (1,500 or
+// 1,500.5), so is a dot before a decimal comma (1.500,5); otherwise either
+// one is the decimal separator (1,5 or 1.5)
+const parseAmount = (text: string): number | null => {
+  if (/^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/.test(text)) return Number(text.replace(/,/g, ''));
+  if (/^\d{1,3}(?:\.\d{3})+,\d+$/.test(text)) return Number(text.replace(/\./g, '').replace(',', '.'));
+  if (/^\d+(?:[.,]\d+)?$/.test(text)) return Number(text.replace(',', '.'));
+  return null;
+};
+
+const findUnit = (text: string): UnitDefinition | undefined =>
+  UNITS_BY_ALIAS.get(text.toLowerCase().replace(/\s+/g, ' ').replace(/\.$/, '').trim());
+
+// The unit code for any spelling findUnit knows ("L", "litre"), or null
+export const resolveUnitCode = (text: string): string | null => findUnit(text)?.code ?? null;
+
+/**
+ * Reads "250 ml", "1,5 L", "1,500 g", "12 oz" or "2x500g" (1000 g). Bare
+ * numbers have no unit; text with an unknown unit or an unreadable number
+ * returns null.
+ */
+export const parseQuantity = (text: string): Quantity | null => {
+  const match = QUANTITY_PATTERN.exec(text.trim().toLowerCase());
+  if (!match) return null;
+
+  const [, multiplier, amount, unitText] = match;
+  const unit = unitText ? findUnit(unitText) : undefined;
+  const value = parseAmount(amount);
+  if ((unitText && !unit) || value === null) return null;
+
+  return { value: value * (multiplier ? Number(multiplier) : 1), unit: unit?.code ?? null };
+};
+
+// The first preferred unit measuring the same thing, or the dimension's default
+const selectBaseUnit = (unit: UnitDefinition, preferred: string[]): UnitDefinition => {
+  const match = preferred.map(findUnit).find(candidate => candidate?.dimension === unit.dimension);
+  return match ?? findUnit(DEFAULT_BASE_UNITS[unit.dimension]);
+};
+
+export const normalizeQuantity = (quantity: Quantity, preferredUnits: string[] = []): Quantity => {
+  const unit = quantity.unit ? findUnit(quantity.unit) : undefined;
+  if (!unit) return quantity;
+
+  const base = selectBaseUnit(unit, preferredUnits);
+  const value = Math.round((quantity.value * unit.factor / base.factor) * 1000) / 1000;
+  return { value, unit: base.code };
+};
+
+// Cell error for a quantity field whose value can't be read
+export const describeUnreadableQuantity = (definition: FieldDefinition | undefined, value: unknown): string | null => {
+  if (!definition?.quantity || value === null || value === undefined || typeof value === 'number') return null;
+  const text = String(value).trim();
+  return text === '' || parseQuantity(text) ? null : `Can't read a ${definition.label} from "${text}"`;
+};
+
+/**
+ * Converts every quantity field of a DTO to its base unit and stores the unit
+ * in the field's unit field. Unreadable values are left for validation.
+ */
+export const normalizeRecordQuantities = (record: Record<string, unknown>, fields: FieldDefinitions): void => {
+  Object.entries(fields).forEach(([name, definition]) => {
+    const config = definition.quantity;
+    const raw = record[name];
+    if (!config || raw === null || raw === undefined || raw === '') return;
+
+    const parsed = typeof raw === 'number' ? { value: raw, unit: null } : parseQuantity(String(raw));
+    if (!parsed) return;
+
+    const statedUnit = record[config.unitField];
+    const quantity = {
+      value: parsed.value,
+      unit: parsed.unit ?? (typeof statedUnit === 'string' && findUnit(statedUnit) ? findUnit(statedUnit).code : null),
+    };
+    const category = config.baseUnitField ? String(record[config.baseUnitField] ?? '') : '';
+    const normalized = normalizeQuantity(quantity, config.baseUnits?.[category]);
+
+    record[name] = normalized.value;
+    if (normalized.unit) {
+      record[config.unitField] = normalized.unit;
+    }
+  });
+};
@@ -0,0 +1,96 @@
+import { type FieldDefinition } from '../schemas/fieldDefinition';
+import { diceSimilarity, normalizeHeader } from './autoMapper';
+
+// Source value → target option
+export type ValueMap = Record<string, string>;
+
+export interface DistinctValue {
+  value: string;
+  count: number;
+}
+
+export interface OptionSuggestion {
+  option: string;
+  confidence: number;
+}
+
+// Suggestions below this score are not offered
+const SUGGESTION_THRESHOLD = 0.5;
+const PREFIX_SCORE = 0.8;
+
+export const isEnumeratedField = (definition: FieldDefinition | undefined): boolean =>
+  Boolean(definition?.options?.length);
+
+// Own keys only, so values like "constructor" aren't found on Object.prototype
+const hasMapping = (valueMap: ValueMap | undefined, key: string): boolean =>
+  Boolean(valueMap) && Object.prototype.hasOwnProperty.call(valueMap, key);
+
+export const lookupValue = (value: unknown, valueMap: ValueMap | undefined): unknown => {
+  if (!valueMap || value === null || value === undefined) return value;
+  const key = String(value).trim();
+  return hasMapping(valueMap, key) ? valueMap[key] : value;
+};
+
+// Non-empty values, most frequent first
+export const getDistinctValues = (values: unknown[]): DistinctValue[] => {
+  const counts = new Map<string, number>();
+  values.forEach(raw => {
+    const value = raw === null || raw === undefined ? '' : String(raw).trim();
+    if (value !== '') {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  });
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+/**
+ * Picks the option closest to a supplier's label. Abbreviations like "Elec."
+ * match options they prefix, and labels containing an option's words
+ * ("Consumer Electronics") match that option.
+ */
+export const suggestOption = (value: string, options: readonly string[]): OptionSuggestion | null => {
+  const normalizedValue = normalizeHeader(value);
+  if (!normalizedValue) return null;
+
+  let best: OptionSuggestion | null = null;
+  for (const option of options) {
+    const normalizedOption = normalizeHeader(option);
+    let confidence = diceSimilarity(normalizedValue, normalizedOption);
+    if (normalizedValue === normalizedOption) {
+      confidence = 1;
+    } else if (
+      (normalizedValue.length >= 3 && normalizedOption.startsWith(normalizedValue)) ||
+      normalizedValue.split(' ').some(word => word.length >= 3 && normalizedOption.split(' ').includes(word))
+    ) {
+      confidence = Math.max(confidence, PREFIX_SCORE);
+    }
+    if (confidence >= SUGGESTION_THRESHOLD && (!best || confidence > best.confidence)) {
+      best = { option, confidence };
+    }
+  }
+  return best;
+};
+
+// The option a value already stands for: the option itself or a spelling the field reads as one
+export const resolveOptionValue = (definition: FieldDefinition | undefined, value: string): string | null => {
+  if (definition?.options?.includes(value)) return value;
+  return definition?.resolveOption?.(value) ?? null;
+};
+
+// Values that are neither an option (in any spelling the field reads) nor mapped to one
+export const getUnmappedValues = (
+  values: DistinctValue[],
+  definition: FieldDefinition,
+  valueMap: ValueMap | undefined
+): DistinctValue[] =>
+  values.filter(({ value }) => !resolveOptionValue(definition, value) && !hasMapping(valueMap, value));
+
+// Review grid message for a value of an enumerated field that no lookup covers
+export const describeUnmappedValue = (definition: FieldDefinition | undefined, value: unknown): string | null => {
+  if (!isEnumeratedField(definition) || value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text === '' || resolveOptionValue(definition, text)
+    ? null
+    : `"${text}" is not mapped to a ${definition.label}`;
+};
@@ -0,0 +1,54 @@
+import {
+  optionalEmail,
+  optionalText,
+  requiredText,
+  type FieldDefinitions,
+} from './fieldDefinition';
+import { type EntitySchema } from './entitySchema';
+
+export const companyFields = {
+  companyID: {
+    label: 'Company ID',
+    schema: requiredText('Company ID'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['company code', 'supplier id', 'supplier code', 'vendor id', 'vendor code', 'id'],
+  },
+  companyName: {
+    label: 'Company Name',
+    schema: requiredText('Company Name'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['company', 'name', 'supplier', 'supplier name', 'vendor', 'vendor name', 'legal name'],
+  },
+  country: {
+    label: 'Country',
+    schema: optionalText(),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['country code', 'nation', 'location'],
+  },
+  contactEmail: {
+    label: 'Contact Email',
+    schema: optionalEmail('Contact Email'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['email', 'e mail', 'contact', 'email address'],
+  },
+  website: {
+    label: 'Website',
+    schema: optionalText(),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['url', 'web', 'homepage', 'site'],
+  },
+} satisfies FieldDefinitions;
+
+export const companyEntity: EntitySchema = {
+  id: 'company',
+  label: 'Companies',
+  description: 'Suppliers and brand owners referenced by products',
+  dtoName: 'CompanyDto',
+  fields: companyFields,
+  naturalKey: ['companyID'],
+};
@@ -0,0 +1,21 @@
+import { isRequiredField, type FieldDefinitions } from './fieldDefinition';
+
+// A target the import wizard can map source files onto
+export interface EntitySchema {
+  id: string;
+  label: string;
+  description: string;
+  // Name of the API DTO, shown in mapping hints and error messages
+  dtoName: string;
+  fields: FieldDefinitions;
+  // Default fields that identify an existing record when updating
+  naturalKey: string[];
+}
+
+export const getFieldNames = (entity: EntitySchema): string[] => Object.keys(entity.fields);
+
+export const getRequiredFields = (entity: EntitySchema): string[] =>
+  getFieldNames(entity).filter(name => isRequiredField(entity.fields[name]));
+
+export const getOptionalFields = (entity: EntitySchema): string[] =>
+  getFieldNames(entity).filter(name => !isRequiredField(entity.fields[name]));
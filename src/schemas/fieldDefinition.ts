@@ -0,0 +1,114 @@
+import { z } from 'zod';
+
+export type FieldInput = 'text' | 'textarea' | 'number' | 'select' | 'image' | 'date';
+
+// A number read with a unit ("250 ml") and normalised to a base unit on import
+export interface QuantityConfig {
+  // Field that stores the unit of the value
+  unitField: string;
+  // Field whose value selects the preferred base units, e.g. the product category
+  baseUnitField?: string;
+  // baseUnitField value → preferred units; each dimension falls back to ml, g or pcs
+  baseUnits?: Record<string, string[]>;
+}
+
+export interface FieldDefinition {
+  label: string;
+  schema: z.ZodTypeAny;
+  input: FieldInput;
+  defaultValue: string | number;
+  options?: readonly string[];
+  // Header spellings suppliers commonly use for this field (used by the auto-mapper)
+  synonyms?: string[];
+  // Column width in the product grid; fields without one are not shown there
+  gridSize?: number;
+  gridHeader?: string;
+  quantity?: QuantityConfig;
+  // Reads other spellings of an option ("litre" for "l"); null when it can't
+  resolveOption?: (value: string) => string | null;
+}
+
+export type FieldDefinitions = Record<string, FieldDefinition>;
+
+// Treats blank strings from file cells and form inputs as missing values
+const blankToUndefined = (value: unknown) => {
+  if (typeof value !== 'string') return value;
+  const trimmed = value.trim();
+  return trimmed === '' ? undefined : trimmed;
+};
+
+const blankToNumber = (value: unknown) => {
+  const blank = blankToUndefined(value);
+  return typeof blank === 'string' ? Number(blank) : blank;
+};
+
+export const requiredText = (label: string) =>
+  z.preprocess(blankToUndefined, z.string({ required_error: `${label} is required` }));
+
+export const optionalText = () =>
+  z.preprocess(blankToUndefined, z.string().optional());
+
+export const positiveNumber = (label: string) =>
+  z.preprocess(
+    blankToNumber,
+    z
+      .number({ required_error: `${label} is required`, invalid_type_error: `${label} must be a number` })
+      .positive(`${label} must be greater than 0`)
+  );
+
+export const nonNegativeInteger = (label: string) =>
+  z.preprocess(
+    blankToNumber,
+    z
+      .number({ required_error: `${label} is required`, invalid_type_error: `${label} must be a number` })
+      .int(`${label} must be a whole number`)
+      .nonnegative(`${label} cannot be negative`)
+  );
+
+export const optionalEmail = (label: string) =>
+  z.preprocess(blankToUndefined, z.string().email(`${label} must be a valid email address`).optional());
+
+export const optionalDate = (label: string) =>
+  z.preprocess(
+    blankToUndefined,
+    z
+      .string()
+      .refine(value => !Number.isNaN(Date.parse(value)), { message: `${label} must be a valid date` })
+      .optional()
+  );
+
+export const matchesPattern = (label: string, pattern: RegExp, message: string) =>
+  requiredText(label).refine(value => pattern.test(value as string), { message: `${label} ${message}` });
+
+export const oneOf = (label: string, options: readonly string[]) =>
+  requiredText(label).refine(
+    value => options.includes(value as string),
+    { message: `${label} must be one of: ${options.join(', ')}` }
+  );
+
+export const optionalOneOf = (label: string, options: readonly string[]) =>
+  z.preprocess(
+    blankToUndefined,
+    z.string().refine(value => options.includes(value), { message: `${label} must be one of: ${options.join(', ')}` }).optional()
+  );
+
+export const isRequiredField = (definition: FieldDefinition): boolean =>
+  !definition.schema.isOptional();
+
+// Known spellings of an option are read as the option before the schema checks them
+const resolveAlias = (definition: FieldDefinition, value: unknown): unknown =>
+  definition.resolveOption && typeof value === 'string'
+    ? definition.resolveOption(value.trim()) ?? value
+    : value;
+
+// Returns the first validation message for a single value, or null when valid
+export const validateFieldValue = (definition: FieldDefinition, value: unknown): string | null => {
+  const result = definition.schema.safeParse(resolveAlias(definition, value));
+  return result.success ? null : result.error.issues[0]?.message || `${definition.label} is invalid`;
+};
+
+// Returns the schema's parsed value (trimmed, numbers coerced), or the raw value when invalid
+export const parseFieldValue = (definition: FieldDefinition, value: unknown): unknown => {
+  const result = definition.schema.safeParse(resolveAlias(definition, value));
+  return result.success ? result.data : value;
+};
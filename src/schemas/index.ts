@@ -0,0 +1,20 @@
+import { type EntitySchema } from './entitySchema';
+import { productTypeEntity } from './productType';
+import { companyEntity } from './company';
+import { priceListEntity } from './priceList';
+import { inventoryLevelEntity } from './inventoryLevel';
+
+// Every entity type the import wizard can target. Register new schemas here.
+export const entitySchemas: EntitySchema[] = [
+  productTypeEntity,
+  companyEntity,
+  priceListEntity,
+  inventoryLevelEntity,
+];
+
+export const DEFAULT_ENTITY_ID = productTypeEntity.id;
+
+export const getEntitySchema = (id: string): EntitySchema =>
+  entitySchemas.find(entity => entity.id === id) || productTypeEntity;
+
+export * from './entitySchema';
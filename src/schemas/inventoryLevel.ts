@@ -0,0 +1,54 @@
+import {
+  nonNegativeInteger,
+  optionalDate,
+  requiredText,
+  type FieldDefinitions,
+} from './fieldDefinition';
+import { type EntitySchema } from './entitySchema';
+
+export const inventoryLevelFields = {
+  companyID: {
+    label: 'Company ID',
+    schema: requiredText('Company ID'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['company code', 'supplier id', 'supplier code', 'vendor id'],
+  },
+  productTypeID: {
+    label: 'Product Type ID',
+    schema: requiredText('Product Type ID'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['sku', 'item code', 'product code', 'product id', 'article number', 'ean', 'gtin'],
+  },
+  warehouseID: {
+    label: 'Warehouse ID',
+    schema: requiredText('Warehouse ID'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['warehouse', 'location', 'location id', 'store', 'site', 'depot'],
+  },
+  quantityOnHand: {
+    label: 'Quantity On Hand',
+    schema: nonNegativeInteger('Quantity On Hand'),
+    input: 'number',
+    defaultValue: 0,
+    synonyms: ['quantity', 'qty', 'stock', 'on hand', 'available', 'stock level'],
+  },
+  countedAt: {
+    label: 'Counted At',
+    schema: optionalDate('Counted At'),
+    input: 'date',
+    defaultValue: '',
+    synonyms: ['count date', 'stock date', 'as of', 'last counted', 'date'],
+  },
+} satisfies FieldDefinitions;
+
+export const inventoryLevelEntity: EntitySchema = {
+  id: 'inventoryLevel',
+  label: 'Inventory Levels',
+  description: 'Stock on hand per product and warehouse',
+  dtoName: 'InventoryLevelDto',
+  fields: inventoryLevelFields,
+  naturalKey: ['companyID', 'productTypeID', 'warehouseID'],
+};
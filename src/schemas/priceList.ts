@@ -0,0 +1,62 @@
+import {
+  matchesPattern,
+  optionalDate,
+  positiveNumber,
+  requiredText,
+  type FieldDefinitions,
+} from './fieldDefinition';
+import { type EntitySchema } from './entitySchema';
+
+export const priceListFields = {
+  companyID: {
+    label: 'Company ID',
+    schema: requiredText('Company ID'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['company code', 'supplier id', 'supplier code', 'vendor id'],
+  },
+  productTypeID: {
+    label: 'Product Type ID',
+    schema: requiredText('Product Type ID'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['sku', 'item code', 'product code', 'product id', 'article number', 'ean', 'gtin'],
+  },
+  price: {
+    label: 'Price',
+    schema: positiveNumber('Price'),
+    input: 'number',
+    defaultValue: 0,
+    synonyms: ['unit price', 'list price', 'net price', 'amount', 'cost'],
+  },
+  currency: {
+    label: 'Currency',
+    schema: matchesPattern('Currency', /^[A-Z]{3}$/, 'must be a three-letter ISO code such as EUR'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['currency code', 'ccy', 'cur'],
+  },
+  validFrom: {
+    label: 'Valid From',
+    schema: optionalDate('Valid From'),
+    input: 'date',
+    defaultValue: '',
+    synonyms: ['start date', 'effective date', 'effective from', 'from'],
+  },
+  validTo: {
+    label: 'Valid To',
+    schema: optionalDate('Valid To'),
+    input: 'date',
+    defaultValue: '',
+    synonyms: ['end date', 'expiry date', 'effective to', 'until'],
+  },
+} satisfies FieldDefinitions;
+
+export const priceListEntity: EntitySchema = {
+  id: 'priceList',
+  label: 'Price Lists',
+  description: 'Per-product prices with currency and validity period',
+  dtoName: 'PriceListEntryDto',
+  fields: priceListFields,
+  naturalKey: ['companyID', 'productTypeID', 'currency'],
+};
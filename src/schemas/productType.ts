@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import {
+  isRequiredField,
+  oneOf,
+  optionalOneOf,
+  optionalText,
+  positiveNumber,
+  requiredText,
+  type FieldDefinitions,
+} from './fieldDefinition';
+import { type EntitySchema } from './entitySchema';
+import { resolveUnitCode, UNIT_CODES } from '../lib/units';
+
+export const PRODUCT_CATEGORIES = [
+  'Electronics',
+  'Technology',
+  'Food & Beverage',
+  'Clothing',
+  'Home & Garden',
+  'Health & Beauty',
+  'Sports & Outdoors',
+  'Books & Media',
+] as const;
+
+// Units net content is stored in for each category; others use ml, g or pcs
+const NET_CONTENT_BASE_UNITS: Partial<Record<(typeof PRODUCT_CATEGORIES)[number], string[]>> = {
+  'Food & Beverage': ['ml', 'g'],
+  'Home & Garden': ['l', 'kg'],
+  'Sports & Outdoors': ['l', 'kg'],
+  'Electronics': ['g'],
+  'Technology': ['g'],
+};
+
+// Single source of truth for ProductTypeDto: the mapping dropdown, cell
+// validation, product dialogs and product grid are all derived from this.
+export const productFields = {
+  companyID: {
+    label: 'Company ID',
+    schema: requiredText('Company ID'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['company id', 'company code', 'supplier id', 'supplier code', 'vendor id', 'vendor code', 'manufacturer id'],
+    gridSize: 120,
+  },
+  productTypeID: {
+    label: 'Product Type ID',
+    schema: requiredText('Product Type ID'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['product type id', 'sku', 'item code', 'item id', 'product code', 'product id', 'article number', 'part number', 'ean', 'upc', 'gtin'],
+    gridSize: 130,
+  },
+  companyName: {
+    label: 'Company Name',
+    schema: requiredText('Company Name'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['company', 'brand', 'brand name', 'supplier', 'supplier name', 'manufacturer', 'vendor', 'vendor name'],
+    gridSize: 150,
+  },
+  productName: {
+    label: 'Product Name',
+    schema: requiredText('Product Name'),
+    input: 'text',
+    defaultValue: '',
+    synonyms: ['product', 'name', 'title', 'item name', 'product title', 'item'],
+    gridSize: 150,
+  },
+  productDescription: {
+    label: 'Product Description',
+    schema: requiredText('Product Description'),
+    input: 'textarea',
+    defaultValue: '',
+    synonyms: ['description', 'desc', 'details', 'long description', 'short description', 'product details'],
+  },
+  productImage: {
+    label: 'Product Image',
+    schema: optionalText(),
+    input: 'image',
+    defaultValue: '',
+    synonyms: ['image', 'image url', 'image link', 'picture', 'photo', 'img', 'thumbnail'],
+    gridSize: 100,
+    gridHeader: 'Image',
+  },
+  globalProductCategory: {
+    label: 'Global Product Category',
+    schema: oneOf('Global Product Category', PRODUCT_CATEGORIES),
+    input: 'select',
+    defaultValue: '',
+    options: PRODUCT_CATEGORIES,
+    synonyms: ['category', 'product category', 'department', 'segment', 'product group', 'category name'],
+    gridSize: 130,
+    gridHeader: 'Category',
+  },
+  netContent: {
+    label: 'Net Content',
+    schema: positiveNumber('Net Content'),
+    input: 'number',
+    defaultValue: 0,
+    synonyms: ['size', 'volume', 'weight', 'content', 'net weight', 'net volume', 'capacity', 'quantity'],
+    gridSize: 100,
+    quantity: {
+      unitField: 'netContentUnit',
+      baseUnitField: 'globalProductCategory',
+      baseUnits: NET_CONTENT_BASE_UNITS,
+    },
+  },
+  netContentUnit: {
+    label: 'Net Content Unit',
+    schema: optionalOneOf('Net Content Unit', UNIT_CODES),
+    input: 'select',
+    defaultValue: '',
+    options: UNIT_CODES,
+    resolveOption: resolveUnitCode,
+    synonyms: ['unit', 'uom', 'unit of measure', 'content unit', 'size unit'],
+    gridSize: 80,
+    gridHeader: 'Unit',
+  },
+} satisfies FieldDefinitions;
+
+export type ProductFieldName = keyof typeof productFields;
+
+export const productFieldNames = Object.keys(productFields) as ProductFieldName[];
+
+export const requiredProductFields = productFieldNames.filter(name => isRequiredField(productFields[name]));
+
+export const productTypeSchema = z.object({
+  id: z.string().optional(),
+  ...(Object.fromEntries(
+    productFieldNames.map(name => [name, productFields[name].schema])
+  ) as { [K in ProductFieldName]: (typeof productFields)[K]['schema'] }),
+  metaData: z.record(z.unknown()).optional(),
+});
+
+export type ProductTypeDto = z.infer<typeof productTypeSchema>;
+
+export const createEmptyProduct = (): Omit<ProductTypeDto, 'id'> =>
+  Object.fromEntries(
+    productFieldNames.map(name => [name, productFields[name].defaultValue])
+  ) as Omit<ProductTypeDto, 'id'>;
+
+export const productTypeEntity: EntitySchema = {
+  id: 'productType',
+  label: 'Products',
+  description: 'Product catalog entries with descriptions, images and categories',
+  dtoName: 'ProductTypeDto',
+  fields: productFields,
+  naturalKey: ['companyID', 'productTypeID'],
+};
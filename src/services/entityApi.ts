@@ -0,0 +1,77 @@
+import { type CSVData } from '../types/import';
+import {
+  ApiError,
+  createJsonRequest,
+  type BulkImportRequest,
+  type BulkImportResult,
+} from './productApi';
+
+export type EntityRecord = CSVData & { id?: string };
+
+// What the import wizard needs from an entity's service: the existing records
+// to match against and a bulk upsert
+export interface EntityApi<T = EntityRecord> {
+  list: () => Promise<T[]>;
+  bulkImport: (request: BulkImportRequest<T>) => Promise<BulkImportResult<T>>;
+}
+
+// REST resource under the API root, e.g. GET /companies and POST /companies/bulk-import
+export const createHttpEntityApi = (baseUrl: string, resource: string): EntityApi => {
+  const request = createJsonRequest(baseUrl);
+
+  return {
+    list: () => request<EntityRecord[]>(`/${resource}`),
+    bulkImport: (bulkRequest) => request<BulkImportResult<EntityRecord>>(`/${resource}/bulk-import`, {
+      method: 'POST',
+      body: JSON.stringify(bulkRequest),
+    }),
+  };
+};
+
+const MOCK_LATENCY_MS = 400;
+
+const delay = <T>(value: T): Promise<T> =>
+  new Promise(resolve => setTimeout(() => resolve(value), MOCK_LATENCY_MS));
+
+// In-memory stand-in for an entity service, like the product mock. Creates
+// that repeat the natural key of a stored record fail as the backend would.
+export const createMockEntityApi = (naturalKey: string[], seed: EntityRecord[] = []): EntityApi => {
+  let records = seed.map(record => ({ ...record }));
+  let nextId = records.length + 1;
+
+  const keyOf = (record: CSVData) => naturalKey.map(field => String(record[field] ?? '')).join('/');
+
+  const replace = (id: string, record: EntityRecord): EntityRecord => {
+    if (!records.some(existing => existing.id === id)) {
+      throw new ApiError(`Record ${id} not found`, 404);
+    }
+    const updated = { ...record, id };
+    records = records.map(existing => (existing.id === id ? updated : existing));
+    return updated;
+  };
+
+  return {
+    list: () => delay(records.map(record => ({ ...record }))),
+    bulkImport: async ({ create, update }) => {
+      const result: BulkImportResult<EntityRecord> = { created: [], updated: [], failed: [] };
+      create.forEach((record, index) => {
+        const key = keyOf(record);
+        if (records.some(existing => keyOf(existing) === key)) {
+          result.failed.push({ index, error: `Record ${key} already exists` });
+          return;
+        }
+        const created = { ...record, id: String(nextId++) };
+        records = [...records, created];
+        result.created.push(created);
+      });
+      update.forEach((record, index) => {
+        try {
+          result.updated.push(replace(record.id, record));
+        } catch (error) {
+          result.failed.push({ index: create.length + index, error: (error as Error).message });
+        }
+      });
+      return delay(result);
+    },
+  };
+};
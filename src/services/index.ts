@@ -0,0 +1,36 @@
+import { createHttpProductApi, type ProductApi } from './productApi';
+import { createMockProductApi } from './mockProductApi';
+import { createHttpEntityApi, createMockEntityApi, type EntityApi, type EntityRecord } from './entityApi';
+import { productTypeEntity } from '../schemas/productType';
+import { companyEntity } from '../schemas/company';
+import { priceListEntity } from '../schemas/priceList';
+import { inventoryLevelEntity } from '../schemas/inventoryLevel';
+
+// Set VITE_PRODUCT_API_URL to talk to a real backend; without it the bundled
+// in-browser mock is used
+const productApiBaseUrl = import.meta.env.VITE_PRODUCT_API_URL;
+
+export const productApi: ProductApi = productApiBaseUrl
+  ? createHttpProductApi(productApiBaseUrl)
+  : createMockProductApi();
+
+const seedCompanies: EntityRecord[] = [
+  { id: '1', companyID: 'COMP001', companyName: 'Acme Corp', country: 'US', contactEmail: '', website: '' },
+  { id: '2', companyID: 'COMP002', companyName: 'Tech Solutions', country: 'DE', contactEmail: '', website: '' },
+];
+
+const createEntityApi = (resource: string, naturalKey: string[], seed: EntityRecord[] = []): EntityApi =>
+  productApiBaseUrl ? createHttpEntityApi(productApiBaseUrl, resource) : createMockEntityApi(naturalKey, seed);
+
+// The service behind each entity in the schema registry
+const entityApis: Record<string, EntityApi> = {
+  [productTypeEntity.id]: productApi,
+  [companyEntity.id]: createEntityApi('companies', companyEntity.naturalKey, seedCompanies),
+  [priceListEntity.id]: createEntityApi('price-lists', priceListEntity.naturalKey),
+  [inventoryLevelEntity.id]: createEntityApi('inventory-levels', inventoryLevelEntity.naturalKey),
+};
+
+export const getEntityApi = (entityId: string): EntityApi => entityApis[entityId] ?? productApi;
+
+export * from './productApi';
+export * from './entityApi';
@@ -0,0 +1,107 @@
+import { type ProductTypeDto } from '../schemas/productType';
+import { ApiError, type BulkImportResult, type ProductApi } from './productApi';
+
+const MOCK_LATENCY_MS = 400;
+
+const seedProducts: ProductTypeDto[] = [
+  {
+    id: '1',
+    companyID: 'COMP001',
+    productTypeID: 'PT001',
+    companyName: 'Acme Corp',
+    productName: 'Premium Widget',
+    productDescription: 'High-quality widget for professional use',
+    productImage: 'https://via.placeholder.com/150',
+    globalProductCategory: 'Electronics',
+    netContent: 250,
+    netContentUnit: 'g',
+    metaData: { weight: '1.5kg', color: 'blue' }
+  },
+  {
+    id: '2',
+    companyID: 'COMP002',
+    productTypeID: 'PT002',
+    companyName: 'Tech Solutions',
+    productName: 'Smart Device',
+    productDescription: 'IoT enabled smart device',
+    productImage: 'https://via.placeholder.com/150',
+    globalProductCategory: 'Technology',
+    netContent: 500,
+    netContentUnit: 'g',
+    metaData: { connectivity: 'WiFi', battery: '10 hours' }
+  }
+];
+
+const delay = <T>(value: T): Promise<T> =>
+  new Promise(resolve => setTimeout(() => resolve(value), MOCK_LATENCY_MS));
+
+// In-memory stand-in for the product service so the app runs without a backend.
+// Data lives for the lifetime of the page.
+export const createMockProductApi = (): ProductApi => {
+  let products = seedProducts.map(product => ({ ...product }));
+  let nextId = products.length + 1;
+
+  const findProduct = (id: string) => {
+    const product = products.find(p => p.id === id);
+    if (!product) {
+      throw new ApiError(`Product ${id} not found`, 404);
+    }
+    return product;
+  };
+
+  const insert = (product: Omit<ProductTypeDto, 'id'>): ProductTypeDto => {
+    const created = { ...product, id: String(nextId++) };
+    products = [...products, created];
+    return created;
+  };
+
+  const replace = (id: string, product: ProductTypeDto): ProductTypeDto => {
+    findProduct(id);
+    const updated = { ...product, id };
+    products = products.map(p => (p.id === id ? updated : p));
+    return updated;
+  };
+
+  return {
+    list: () => delay(products.map(product => ({ ...product }))),
+    get: async (id) => delay({ ...findProduct(id) }),
+    create: async (product) => delay(insert(product)),
+    update: async (id, product) => delay(replace(id, product)),
+    delete: async (id) => {
+      findProduct(id);
+      products = products.filter(p => p.id !== id);
+      return delay(undefined);
+    },
+    bulkImport: async ({ create, update }) => {
+      const result: BulkImportResult = { created: [], updated: [], failed: [] };
+      create.forEach((product, index) => {
+        // Mirrors the backend's unique constraint on the natural key
+        const duplicate = products.some(
+          p => p.companyID === product.companyID && p.productTypeID === product.productTypeID
+        );
+        if (duplicate) {
+          result.failed.push({
+            index,
+            error: `Product ${product.companyID}/${product.productTypeID} already exists`,
+          });
+          return;
+        }
+        result.created.push(insert(product));
+      });
+      update.forEach((product, index) => {
+        try {
+          result.updated.push(replace(product.id, product));
+        } catch (error) {
+          result.failed.push({ index: create.length + index, error: (error as Error).message });
+        }
+      });
+      return delay(result);
+    },
+    getSignedImageUrl: async (fileName) => delay({
+      uploadUrl: `https://mock-s3-bucket.s3.amazonaws.com/products/${fileName}?signature=mock-signature`,
+      fileUrl: `https://mock-s3-bucket.s3.amazonaws.com/products/${fileName}`,
+    }),
+    // Nothing is uploaded; an object URL keeps the image viewable for this session
+    uploadImage: async (file) => delay(URL.createObjectURL(file)),
+  };
+};
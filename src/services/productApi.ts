@@ -0,0 +1,125 @@
+import { type ProductTypeDto } from '../schemas/productType';
+
+export interface BulkImportRequest<T = ProductTypeDto> {
+  create: Omit<T, 'id'>[];
+  update: T[];
+}
+
+export interface BulkImportFailure {
+  // Position in the create list followed by the update list of the request
+  index: number;
+  error: string;
+}
+
+export interface BulkImportResult<T = ProductTypeDto> {
+  created: T[];
+  updated: T[];
+  failed: BulkImportFailure[];
+}
+
+export interface SignedImageUrl {
+  uploadUrl: string;
+  fileUrl: string;
+}
+
+export interface ProductApi {
+  list: () => Promise<ProductTypeDto[]>;
+  get: (id: string) => Promise<ProductTypeDto>;
+  create: (product: Omit<ProductTypeDto, 'id'>) => Promise<ProductTypeDto>;
+  update: (id: string, product: ProductTypeDto) => Promise<ProductTypeDto>;
+  delete: (id: string) => Promise<void>;
+  bulkImport: (request: BulkImportRequest) => Promise<BulkImportResult>;
+  getSignedImageUrl: (fileName: string, contentType: string) => Promise<SignedImageUrl>;
+  // Uploads the file to the signed URL and returns the URL the image is served from
+  uploadImage: (file: File) => Promise<string>;
+}
+
+export class ApiError extends Error {
+  status: number;
+  body: unknown;
+
+  constructor(message: string, status: number, body?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+const parseBody = (text: string): { isJson: boolean; json?: unknown } => {
+  if (!text) return { isJson: true, json: undefined };
+  try {
+    return { isJson: true, json: JSON.parse(text) };
+  } catch {
+    return { isJson: false };
+  }
+};
+
+// JSON fetch against the API root; shared by every entity's HTTP client
+export const createJsonRequest = (baseUrl: string) => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await fetch(`${root}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    });
+
+    const text = await response.text();
+    const body = parseBody(text);
+
+    // Gateways answer with HTML, so the status is kept even when the body isn't JSON
+    if (!response.ok) {
+      const message = (body.json as { message?: string } | undefined)?.message
+        || `Request failed with status ${response.status}`;
+      throw new ApiError(message, response.status, body.isJson ? body.json : text);
+    }
+    if (!body.isJson) {
+      throw new ApiError('The server returned a response that is not JSON', response.status, text);
+    }
+    return body.json as T;
+  };
+};
+
+export const createHttpProductApi = (baseUrl: string): ProductApi => {
+  const request = createJsonRequest(baseUrl);
+
+  const getSignedImageUrl = (fileName: string, contentType: string) =>
+    request<SignedImageUrl>('/products/images/signed-url', {
+      method: 'POST',
+      body: JSON.stringify({ fileName, contentType }),
+    });
+
+  return {
+    list: () => request<ProductTypeDto[]>('/products'),
+    get: (id) => request<ProductTypeDto>(`/products/${encodeURIComponent(id)}`),
+    create: (product) => request<ProductTypeDto>('/products', {
+      method: 'POST',
+      body: JSON.stringify(product),
+    }),
+    update: (id, product) => request<ProductTypeDto>(`/products/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(product),
+    }),
+    delete: (id) => request<void>(`/products/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+    bulkImport: (bulkRequest) => request<BulkImportResult>('/products/bulk-import', {
+      method: 'POST',
+      body: JSON.stringify(bulkRequest),
+    }),
+    getSignedImageUrl,
+    uploadImage: async (file) => {
+      const fileName = `${Date.now()}-${file.name}`;
+      const { uploadUrl, fileUrl } = await getSignedImageUrl(fileName, file.type);
+
+      const response = await fetch(uploadUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': file.type },
+        body: file,
+      });
+      if (!response.ok) {
+        throw new ApiError(`Image upload failed with status ${response.status}`, response.status);
+      }
+      return fileUrl;
+    },
+  };
+};
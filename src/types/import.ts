@@ -0,0 +1,47 @@
+import { type TransformStep } from '../lib/transforms';
+import { type ValueMap } from '../lib/valueMaps';
+import { type SplitSource } from '../lib/splitColumn';
+import { type MetaDataType } from '../lib/metaData';
+
+export interface CSVData {
+  [key: string]: any;
+}
+
+// A column of the uploaded file; rows store their values under the id
+export interface SourceColumn {
+  id: string;
+  name: string;
+}
+
+export interface ColumnMapping {
+  columnId: string;
+  // Display name of the source column, also the default metaData key
+  originalName: string;
+  mappedName: string;
+  isValid: boolean;
+  isMetadata: boolean;
+  errorMessage?: string;
+  // Set when the mapping was chosen by the auto-mapper (0-1)
+  confidence?: number;
+  // Applied in order to each cell before validation and upload
+  transforms?: TransformStep[];
+  // Replaces transformed values with options of an enumerated field
+  valueMap?: ValueMap;
+  // Set on the outputs of a split column; columnId is then the output's own id
+  split?: SplitSource;
+  // Where and how a metaData column is stored; dots in the key nest the value
+  metaDataKey?: string;
+  metaDataType?: MetaDataType;
+}
+
+export type ComputedFieldKind = 'template' | 'constant';
+
+// A DTO field produced from several columns or a fixed value rather than a
+// single source column
+export interface ComputedField {
+  id: string;
+  field: string;
+  kind: ComputedFieldKind;
+  // Template with {Column name} placeholders, or the constant value
+  expression: string;
+}
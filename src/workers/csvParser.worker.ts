@@ -0,0 +1,90 @@
+import Papa from 'papaparse';
+import { CSV_CHUNK_SIZE, createRecordSplitter, type CsvParseMessage, type CsvParseRequest } from '../lib/csvStream';
+import { toParseIssueType, type ParseIssue } from '../lib/parseIssues';
+import { rowToRecord } from '../lib/columnHeaders';
+import { type CSVData } from '../types/import';
+
+const post = (message: CsvParseMessage) => self.postMessage(message);
+
+// Reads the file in byte slices through one streaming TextDecoder, so characters
+// split across slices decode correctly, then parses each run of complete records
+// with Papa and posts it back as row objects. The main thread never holds the
+// raw string[][] copy.
+self.onmessage = async (event: MessageEvent<CsvParseRequest>) => {
+  const { file, options } = event.data;
+  const decoder = new TextDecoder(options.encoding);
+  const splitter = createRecordSplitter(options.delimiter, options.quoteChar);
+  let headers: string[] | null = null;
+  let rowCount = 0;
+  // Non-blank rows above the chosen header row (e.g. title lines) are skipped
+  let rowsBeforeHeader = options.headerRowIndex;
+
+  const parseRecords = (text: string, bytesRead: number) => {
+    if (text === '') return;
+    const rows: CSVData[] = [];
+    const issues: ParseIssue[] = [];
+    // Papa reports where each row ends, so issues can quote the row's text as it is in the file
+    let rowStart = 0;
+
+    Papa.parse<string[]>(text, {
+      header: false,
+      delimiter: options.delimiter,
+      quoteChar: options.quoteChar,
+      skipEmptyLines: false,
+      step: (result) => {
+        const row = result.data;
+        const raw = text.slice(rowStart, result.meta.cursor).replace(/(\r\n|\r|\n)$/, '');
+        rowStart = result.meta.cursor;
+        if (!row.some(cell => cell.trim() !== '')) return;
+
+        if (!headers) {
+          if (rowsBeforeHeader > 0) {
+            rowsBeforeHeader--;
+          } else {
+            headers = row;
+            post({ type: 'headers', headers });
+          }
+          return;
+        }
+
+        // Malformed rows are kept and reported rather than failing the whole file
+        const rowIssues: Omit<ParseIssue, 'rowIndex' | 'raw'>[] = result.errors.map(error => ({
+          type: toParseIssueType(error.code),
+          message: error.message,
+        }));
+        // Papa only checks field counts in header mode, so ragged rows are detected here.
+        // Fields past the last column don't fit the record, so the issue keeps them
+        if (row.length > headers.length) {
+          rowIssues.push({
+            type: 'tooManyFields',
+            message: `Expected ${headers.length} fields but found ${row.length}`,
+            extraFields: row.slice(headers.length),
+          });
+        } else if (row.length < headers.length) {
+          rowIssues.push({
+            type: 'tooFewFields',
+            message: `Expected ${headers.length} fields but found ${row.length}`,
+          });
+        }
+
+        rowIssues.forEach(issue => issues.push({ ...issue, rowIndex: rowCount + rows.length, raw }));
+        rows.push(rowToRecord(row, headers.length));
+      },
+    });
+
+    rowCount += rows.length;
+    post({ type: 'rows', rows, issues, progress: { bytesRead, totalBytes: file.size, rowCount } });
+  };
+
+  try {
+    for (let offset = 0; offset < file.size; offset += CSV_CHUNK_SIZE) {
+      const bytes = await file.slice(offset, offset + CSV_CHUNK_SIZE).arrayBuffer();
+      const text = decoder.decode(bytes, { stream: true });
+      parseRecords(splitter.push(text), Math.min(file.size, offset + CSV_CHUNK_SIZE));
+    }
+    parseRecords(splitter.push(decoder.decode()) + splitter.flush(), file.size);
+    post({ type: 'complete', progress: { bytesRead: file.size, totalBytes: file.size, rowCount } });
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message });
+  }
+};